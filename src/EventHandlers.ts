@@ -7,6 +7,12 @@ import "./handlers/factory-handler";
 import "./handlers/initialize-handler";
 import "./handlers/transfer-handler";
 import "./handlers/swap-handler";
+import "./handlers/liquidity-handler";
+import "./handlers/eth-price-handler";
+import "./handlers/protocol-handler";
+import "./handlers/governance-handler";
+import "./handlers/approval-handler";
+import "./handlers/authorization-handler";
 
 // Note: Other event handlers are not implemented yet.
 // You can implement them following the same pattern:
@@ -15,21 +21,8 @@ import "./handlers/swap-handler";
 // - The handler will auto-register
 
 // Unimplemented handlers for reference:
-// - Ping.Approval
-// - Ping.AuthorizationCanceled
-// - Ping.AuthorizationUsed
 // - Ping.EIP712DomainChanged
-// - Ping.FeesCollected
-// - Ping.LiquidityDeployed
-// - Ping.OwnershipTransferred
-// - Ping.RoleAdminChanged
-// - Ping.RoleGranted
-// - Ping.RoleRevoked
-// - UniswapV3Pool.Burn
-// - UniswapV3Pool.Collect
 // - UniswapV3Pool.CollectProtocol
 // - UniswapV3Pool.Flash
 // - UniswapV3Pool.IncreaseObservationCardinalityNext
-// - UniswapV3Pool.Initialize
-// - UniswapV3Pool.Mint
 // - UniswapV3Pool.SetFeeProtocol
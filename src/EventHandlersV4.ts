@@ -4,13 +4,16 @@
  * Handles events from the singleton PoolManager contract:
  * - Initialize: Pool creation (replaces Factory.PoolCreated in V3)
  * - Swap: Swap events within pools
+ * - ModifyLiquidity: Liquidity adds/removes (replaces Mint/Burn in V3)
  */
 
 import {
   UniswapV4PoolManager,
   PoolV4,
   PoolV4Registry,
+  PoolV4SwapLookup,
   SwapV4,
+  ModifyLiquidityV4,
   DailyPoolActivity,
   Account,
 } from "generated";
@@ -19,10 +22,44 @@ import {
   ZERO_BI,
   ZERO_BD,
   ONE_BI,
+  LIQUIDITY_ADD,
+  LIQUIDITY_REMOVE,
+  KNOWN_ROUTERS,
 } from "./utils/constants";
 import { fetchTokenMetadata } from "./utils/token-metadata";
-import { abs, convertToDecimal } from "./utils/v4-tick-math";
-import { getDayId, getDayStartTimestamp } from "./utils/index";
+import {
+  abs,
+  convertToDecimal,
+  getLiquidityAmounts,
+  getSqrtRatioAtTick,
+} from "./utils/v4-tick-math";
+import { getDayId, getDayStartTimestamp, getFeeAmount } from "./utils/index";
+import { recordDailyTrader } from "./utils/daily-activity";
+import { loadSwapCandles, recordSwapCandles } from "./utils/candles";
+import { createAccount } from "./utils/account";
+import { PoolTrade, applyPoolTrade } from "./utils/trader-pnl";
+import { createTrade } from "./utils/trade";
+import { updateTicks } from "./utils/ticks";
+import { detectSandwich } from "./utils/mev";
+import { detectArbitrage } from "./utils/arbitrage";
+import {
+  applyPositionLiquidity,
+  createPosition,
+  getV4PositionId,
+  loadOpenPositions,
+  refreshPositionsInRange,
+} from "./utils/positions";
+import {
+  getExecutionPrice,
+  getPingPriceInPair,
+  getPriceImpactBps,
+  getSwapAmountUSD,
+  getTvlUSD,
+  isPing,
+  loadUsdPrices,
+  sqrtPriceX96ToTokenPrices,
+  updatePingPrice,
+} from "./utils/pricing";
 
 /**
  * Helper to convert token amount to decimal
@@ -31,6 +68,26 @@ function convertTokenToDecimal(amount: bigint, decimals: bigint) {
   return convertToDecimal(amount, decimals);
 }
 
+/**
+ * Helper to convert a signed token amount to decimal, preserving the sign
+ */
+function convertSignedTokenToDecimal(amount: bigint, decimals: bigint) {
+  const amountDec = convertTokenToDecimal(abs(amount), decimals);
+  return amount < ZERO_BI ? amountDec.times("-1") : amountDec;
+}
+
+/**
+ * Resolve the trader behind a V4 swap
+ * The PoolManager only sees the locker contract as sender, so swaps through
+ * known routers/aggregators are attributed to the transaction signer instead
+ */
+function resolveTrader(sender: string, txFrom: string): string {
+  const normalizedSender = sender.toLowerCase();
+  return KNOWN_ROUTERS.includes(normalizedSender)
+    ? txFrom.toLowerCase()
+    : normalizedSender;
+}
+
 /**
  * Handle Initialize events - V4 pool creation
  * This replaces the Factory.PoolCreated pattern from V3
@@ -70,6 +127,12 @@ UniswapV4PoolManager.Initialize.handler(async ({ event, context }) => {
     currency1: currency1.toLowerCase(),
   };
 
+  const { price0, price1 } = sqrtPriceX96ToTokenPrices(
+    BigInt(sqrtPriceX96),
+    currency0Metadata.decimals,
+    currency1Metadata.decimals
+  );
+
   // Create PoolV4 entity
   const poolEntity: PoolV4 = {
     id: `${chainId}_${poolId}`,
@@ -97,6 +160,8 @@ UniswapV4PoolManager.Initialize.handler(async ({ event, context }) => {
     sqrtPriceX96: BigInt(sqrtPriceX96),
     liquidity: ZERO_BI, // Will be updated by ModifyLiquidity events
     tick: BigInt(tick),
+    token0Price: price0,
+    token1Price: price1,
 
     // Status
     isActive: false, // Will be set to true when liquidity > 0
@@ -110,6 +175,15 @@ UniswapV4PoolManager.Initialize.handler(async ({ event, context }) => {
     totalValueLockedCurrency0: ZERO_BD,
     totalValueLockedCurrency1: ZERO_BD,
 
+    // USD values
+    volumeUSD: ZERO_BD,
+    tvlUSD: ZERO_BD,
+
+    // Fee revenue
+    feesCurrency0: ZERO_BD,
+    feesCurrency1: ZERO_BD,
+    feesUSD: ZERO_BD,
+
     // Timestamps
     createdAt: BigInt(event.block.timestamp),
     createdAtBlock: BigInt(event.block.number),
@@ -141,12 +215,30 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
   const dayId = getDayId(BigInt(event.block.timestamp));
   const poolEntityId = `${chainId}_${poolId}`;
 
-  // Load pool and daily activity in parallel
-  const [pool, dailyActivity] = await Promise.all([
+  // Routers swap on behalf of the transaction sender
+  const trader = event.transaction.from
+    ? resolveTrader(sender, event.transaction.from)
+    : sender.toLowerCase();
+
+  // Load pool, daily activity, candle buckets, open positions and the swap lookup in parallel,
+  // and warm the prices, trader account and MEV state read after the swap is recorded
+  const [pool, dailyActivity, candleBuckets, openPositions, swapLookup] = await Promise.all([
     context.PoolV4.get(poolEntityId),
     context.DailyPoolActivity.get(`${poolEntityId}_${dayId}`),
+    loadSwapCandles(context, chainId, poolId, BigInt(event.block.timestamp)),
+    loadOpenPositions(context, poolEntityId),
+    context.PoolV4SwapLookup.get(chainId.toString()),
+    loadUsdPrices(context, chainId),
+    context.Account.get(`${chainId}_${trader}`),
+    context.PoolBlockSwaps.get(`${chainId}_${poolId}`),
+    context.TransactionSwaps.get(chainId.toString()),
   ]);
 
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
   if (!pool) {
     context.log.warn(`Pool ${poolId} not found when processing Swap`);
     return;
@@ -166,14 +258,72 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
     ? amount1Dec.times("-1")
     : amount1Dec;
 
+  // Swap deltas are from the swapper's side, so the pool balance moves the opposite way
+  const totalValueLockedCurrency0 = pool.totalValueLockedCurrency0.minus(amount0Signed);
+  const totalValueLockedCurrency1 = pool.totalValueLockedCurrency1.minus(amount1Signed);
+
+  // Update PING/USD from the new pool price, then value the swap and TVL in USD
+  const prices = await updatePingPrice(
+    context,
+    chainId,
+    {
+      identifier: poolId,
+      version: "V4",
+      token0: pool.currency0,
+      token1: pool.currency1,
+      decimals0: pool.currency0Decimals,
+      decimals1: pool.currency1Decimals,
+      sqrtPriceX96: BigInt(sqrtPriceX96),
+      tvl0: totalValueLockedCurrency0,
+      tvl1: totalValueLockedCurrency1,
+    },
+    BigInt(event.block.timestamp),
+    BigInt(event.block.number)
+  );
+  const volumeUSD = getSwapAmountUSD(pool.currency0, pool.currency1, amount0Dec, amount1Dec, prices);
+
+  // Fees are charged on the input side (negative swapper delta) at the dynamic swap fee
+  const feeAmount0 = amount0Signed.lt(ZERO_BD) ? getFeeAmount(amount0Dec, BigInt(swapFee)) : ZERO_BD;
+  const feeAmount1 = amount1Signed.lt(ZERO_BD) ? getFeeAmount(amount1Dec, BigInt(swapFee)) : ZERO_BD;
+  const feesUSD = getSwapAmountUSD(pool.currency0, pool.currency1, feeAmount0, feeAmount1, prices);
+  const tvlUSD = getTvlUSD(
+    pool.currency0,
+    pool.currency1,
+    totalValueLockedCurrency0,
+    totalValueLockedCurrency1,
+    prices
+  );
+
+  // Decode the post-swap price, and the PING price before and after the swap
+  const { price0: token0Price, price1: token1Price } = sqrtPriceX96ToTokenPrices(
+    BigInt(sqrtPriceX96),
+    pool.currency0Decimals,
+    pool.currency1Decimals
+  );
+  const pingPriceBefore = getPingPriceInPair(pool.currency0, pool.token0Price, pool.token1Price);
+  const pingPrice = getPingPriceInPair(pool.currency0, token0Price, token1Price);
+
+  // Price impact of the swap against the pre-swap mid price
+  const executionPrice = getExecutionPrice(pool.currency0, amount0Dec, amount1Dec);
+  const priceImpactBps = getPriceImpactBps(executionPrice, pingPriceBefore);
+
   // Update pool statistics
   const updatedPool: PoolV4 = {
     ...pool,
     sqrtPriceX96: BigInt(sqrtPriceX96),
     liquidity: BigInt(liquidity),
     tick: BigInt(tick),
+    token0Price,
+    token1Price,
     volumeCurrency0: pool.volumeCurrency0.plus(amount0Dec),
     volumeCurrency1: pool.volumeCurrency1.plus(amount1Dec),
+    totalValueLockedCurrency0,
+    totalValueLockedCurrency1,
+    volumeUSD: pool.volumeUSD.plus(volumeUSD),
+    tvlUSD,
+    feesCurrency0: pool.feesCurrency0.plus(feeAmount0),
+    feesCurrency1: pool.feesCurrency1.plus(feeAmount1),
+    feesUSD: pool.feesUSD.plus(feesUSD),
     txCount: pool.txCount + ONE_BI,
     lastSwapAt: BigInt(event.block.timestamp),
     isActive: BigInt(liquidity) > ZERO_BI,
@@ -193,9 +343,19 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
     sender: sender.toLowerCase(),
     amount0: amount0Signed,
     amount1: amount1Signed,
+    volumeUSD,
+    feeAmount0,
+    feeAmount1,
     sqrtPriceX96: BigInt(sqrtPriceX96),
     liquidity: BigInt(liquidity),
     tick: BigInt(tick),
+    token0Price,
+    token1Price,
+    sqrtPriceX96Before: pool.sqrtPriceX96,
+    tickBefore: pool.tick,
+    midPrice: pingPriceBefore,
+    executionPrice,
+    priceImpactBps,
     swapFee: BigInt(swapFee),
   };
 
@@ -208,8 +368,27 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
         dailySwaps: dailyActivity.dailySwaps + ONE_BI,
         dailyVolume0: dailyActivity.dailyVolume0.plus(amount0Dec),
         dailyVolume1: dailyActivity.dailyVolume1.plus(amount1Dec),
+        dailyVolumeUSD: dailyActivity.dailyVolumeUSD.plus(volumeUSD),
+        // Arbitrage legs are moved out once the transaction is classified
+        dailyOrganicVolumeUSD: dailyActivity.dailyOrganicVolumeUSD.plus(volumeUSD),
+        tvlUSD,
+        dailyFees0: dailyActivity.dailyFees0.plus(feeAmount0),
+        dailyFees1: dailyActivity.dailyFees1.plus(feeAmount1),
+        dailyFeesUSD: dailyActivity.dailyFeesUSD.plus(feesUSD),
         liquidityEnd: BigInt(liquidity),
         sqrtPriceX96End: BigInt(sqrtPriceX96),
+        token0Price,
+        token1Price,
+        priceHigh: pingPrice.gt(dailyActivity.priceHigh) ? pingPrice : dailyActivity.priceHigh,
+        priceLow: pingPrice.lt(dailyActivity.priceLow) ? pingPrice : dailyActivity.priceLow,
+        priceClose: pingPrice,
+        avgPriceImpactBps: dailyActivity.avgPriceImpactBps
+          .times(dailyActivity.dailySwaps.toString())
+          .plus(priceImpactBps)
+          .div((dailyActivity.dailySwaps + ONE_BI).toString()),
+        maxPriceImpactBps: priceImpactBps.gt(dailyActivity.maxPriceImpactBps)
+          ? priceImpactBps
+          : dailyActivity.maxPriceImpactBps,
       }
     : {
         id: `${poolEntityId}_${dayId}`,
@@ -221,18 +400,108 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
         dailySwaps: ONE_BI,
         dailyVolume0: amount0Dec,
         dailyVolume1: amount1Dec,
+        dailyVolumeUSD: volumeUSD,
+        dailyOrganicVolumeUSD: volumeUSD,
+        dailyArbitrageVolumeUSD: ZERO_BD,
+        tvlUSD,
+        dailyFees0: feeAmount0,
+        dailyFees1: feeAmount1,
+        dailyFeesUSD: feesUSD,
         liquidityStart: BigInt(liquidity),
         liquidityEnd: BigInt(liquidity),
         sqrtPriceX96Start: BigInt(sqrtPriceX96),
         sqrtPriceX96End: BigInt(sqrtPriceX96),
+        token0Price,
+        token1Price,
+        // The day opens at the price before its first swap
+        priceOpen: pingPriceBefore,
+        priceHigh: pingPrice.gt(pingPriceBefore) ? pingPrice : pingPriceBefore,
+        priceLow: pingPrice.lt(pingPriceBefore) ? pingPrice : pingPriceBefore,
+        priceClose: pingPrice,
+        avgPriceImpactBps: priceImpactBps,
+        maxPriceImpactBps: priceImpactBps,
         dailyLiquidityAdds: ZERO_BI,
         dailyLiquidityRemoves: ZERO_BI,
       };
 
+  // Create the unified Trade record
+  const trade = createTrade({
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    poolIdentifier: poolId,
+    poolVersion: "V4",
+    token0: pool.currency0,
+    token1: pool.currency1,
+    traderAmount0: amount0Signed,
+    traderAmount1: amount1Signed,
+    volumeUSD,
+    buyer: trader,
+    seller: trader,
+  });
+
+  // Remember this swap for PoolManager transfers later in the same transaction
+  // (a lookup left by an earlier transaction is replaced)
+  const isSameTransaction = swapLookup?.transactionHash === event.transaction.hash;
+  const updatedSwapLookup: PoolV4SwapLookup = {
+    id: chainId.toString(),
+    transactionHash: event.transaction.hash,
+    poolIds: [...(isSameTransaction ? swapLookup.poolIds : []), poolEntityId],
+    pingAmounts: [
+      ...(isSameTransaction ? swapLookup.pingAmounts : []),
+      isPing(pool.currency0) ? absAmount0 : absAmount1,
+    ],
+  };
+
   // Save all entities
   context.PoolV4.set(updatedPool);
   context.SwapV4.set(swapEntity);
   context.DailyPoolActivity.set(updatedDailyActivity);
+  context.PoolV4SwapLookup.set(updatedSwapLookup);
+  if (trade) {
+    context.Trade.set(trade);
+  }
+
+  // Check for a sandwich around earlier swaps in this pool and block
+  if (trade && event.transaction.from) {
+    await detectSandwich(context, trade, event.transaction.from, prices);
+  }
+
+  // Check for arbitrage across PING pools in this transaction
+  if (trade) {
+    await detectArbitrage(context, trade, event.transaction.from ?? trade.trader, prices);
+  }
+
+  // Positions may have moved in or out of range
+  if (BigInt(tick) !== pool.tick) {
+    refreshPositionsInRange(context, openPositions, BigInt(tick));
+  }
+
+  // Update hourly data and candles
+  recordSwapCandles(
+    context,
+    {
+      chainId,
+      poolIdentifier: poolId,
+      poolVersion: "V4",
+      timestamp: BigInt(event.block.timestamp),
+      priceBefore: pingPriceBefore,
+      price: pingPrice,
+      amount0: amount0Dec,
+      amount1: amount1Dec,
+      volumeUSD,
+      fees0: feeAmount0,
+      fees1: feeAmount1,
+      liquidity: BigInt(liquidity),
+      sqrtPriceX96: BigInt(sqrtPriceX96),
+      token0Price,
+      token1Price,
+      tvlUSD,
+    },
+    candleBuckets
+  );
 
   context.log.info(
     `Swap recorded for pool ${poolId}: ${amount0} / ${amount1} at block ${event.block.number}`
@@ -256,7 +525,7 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
         `V4 Swap event missing transaction.from field at block ${event.block.number}. Skipping buy/sell tracking.`
       );
     } else {
-      const txInitiator = sender.toLowerCase(); // In V4, sender is already the swap initiator
+      const txInitiator = resolveTrader(sender, event.transaction.from);
       const txHash = event.transaction.hash;
       const timestamp = BigInt(event.block.timestamp);
 
@@ -270,6 +539,19 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
       const amount0Raw = BigInt(amount0);
       const amount1Raw = BigInt(amount1);
 
+      // The paired currency is the quote side of the trade
+      const poolTrade: Omit<PoolTrade, "isBuy" | "pingAmount"> = {
+        chainId,
+        transactionHash: txHash,
+        timestamp,
+        blockNumber: BigInt(event.block.number),
+        logIndex: BigInt(event.logIndex),
+        poolIdentifier: poolId,
+        poolVersion: "V4",
+        quoteToken: isPingCurrency0 ? currency1Address : currency0Address,
+        quoteAmount: isPingCurrency0 ? amount1Dec : amount0Dec,
+      };
+
       if (isPingCurrency0) {
         // PING is currency0
         // Positive amount0 = PING coming out of pool (BUY)
@@ -297,42 +579,267 @@ UniswapV4PoolManager.Swap.handler(async ({ event, context }) => {
       // Update Account for BUY (user receives PING from pool)
       if (isBuy && pingAmount.gt(ZERO_BD)) {
         const accountId = `${chainId}_${txInitiator}`;
-        const account = await context.Account.get(accountId);
-
-        if (account) {
-          context.Account.set({
-            ...account,
-            lastBuyAt: timestamp,
-            lastBuyHash: txHash,
-            totalBuys: account.totalBuys + ONE_BI,
-            totalBuyVolume: account.totalBuyVolume.plus(pingAmount),
-          });
-
-          context.log.info(
-            `Updated BUY for account ${txInitiator}: ${pingAmount} PING (V4)`
-          );
-        }
+        const account =
+          (await context.Account.get(accountId)) ??
+          createAccount(chainId, txInitiator, timestamp, txHash);
+
+        const { account: tradedAccount, accountTrade } = applyPoolTrade(
+          account,
+          { ...poolTrade, isBuy: true, pingAmount },
+          prices
+        );
+        context.Account.set({
+          ...tradedAccount,
+          lastBuyAt: timestamp,
+          lastBuyHash: txHash,
+          totalBuys: account.totalBuys + ONE_BI,
+          totalBuyVolume: account.totalBuyVolume.plus(pingAmount),
+        });
+        context.AccountTrade.set(accountTrade);
+
+        context.log.info(
+          `Updated BUY for account ${txInitiator}: ${pingAmount} PING (V4)`
+        );
       }
 
       // Update Account for SELL (user sends PING to pool)
       if (isSell && pingAmount.gt(ZERO_BD)) {
         const accountId = `${chainId}_${txInitiator}`;
-        const account = await context.Account.get(accountId);
-
-        if (account) {
-          context.Account.set({
-            ...account,
-            lastSellAt: timestamp,
-            lastSellHash: txHash,
-            totalSells: account.totalSells + ONE_BI,
-            totalSellVolume: account.totalSellVolume.plus(pingAmount),
-          });
-
-          context.log.info(
-            `Updated SELL for account ${txInitiator}: ${pingAmount} PING (V4)`
-          );
-        }
+        const account =
+          (await context.Account.get(accountId)) ??
+          createAccount(chainId, txInitiator, timestamp, txHash);
+
+        const { account: tradedAccount, accountTrade } = applyPoolTrade(
+          account,
+          { ...poolTrade, isBuy: false, pingAmount },
+          prices
+        );
+        context.Account.set({
+          ...tradedAccount,
+          lastSellAt: timestamp,
+          lastSellHash: txHash,
+          totalSells: account.totalSells + ONE_BI,
+          totalSellVolume: account.totalSellVolume.plus(pingAmount),
+        });
+        context.AccountTrade.set(accountTrade);
+
+        context.log.info(
+          `Updated SELL for account ${txInitiator}: ${pingAmount} PING (V4)`
+        );
+      }
+
+      // Count unique daily buyers/sellers
+      if ((isBuy || isSell) && pingAmount.gt(ZERO_BD)) {
+        await recordDailyTrader(context, chainId, txInitiator, timestamp, isBuy);
       }
     }
   }
 });
+
+/**
+ * Handle ModifyLiquidity events for V4 pools
+ * V4 only emits liquidityDelta, so token amounts are derived with tick math
+ */
+UniswapV4PoolManager.ModifyLiquidity.handler(async ({ event, context }) => {
+  const { id: poolId, sender, tickLower, tickUpper, liquidityDelta, salt } = event.params;
+  const chainId = BigInt(event.chainId);
+
+  // Check if this is a PING pool
+  const registry = await context.PoolV4Registry.get(poolId);
+  if (!registry || !registry.isPingPool) {
+    return; // Skip non-PING pools
+  }
+
+  // Get day ID for daily activity tracking
+  const dayId = getDayId(BigInt(event.block.timestamp));
+  const poolEntityId = `${chainId}_${poolId}`;
+  const owner = sender.toLowerCase();
+  const positionId = getV4PositionId(
+    chainId,
+    poolId,
+    owner,
+    BigInt(tickLower),
+    BigInt(tickUpper),
+    salt
+  );
+
+  // Load pool, daily activity and position in parallel
+  const [pool, dailyActivity, position] = await Promise.all([
+    context.PoolV4.get(poolEntityId),
+    context.DailyPoolActivity.get(`${poolEntityId}_${dayId}`),
+    context.Position.get(positionId),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  if (!pool) {
+    context.log.warn(`Pool ${poolId} not found when processing ModifyLiquidity`);
+    return;
+  }
+
+  const delta = BigInt(liquidityDelta);
+  const isAdd = delta >= ZERO_BI;
+  // A zero delta only pokes the position to collect fees, so it is not counted
+  const addCount = delta > ZERO_BI ? ONE_BI : ZERO_BI;
+  const removeCount = delta < ZERO_BI ? ONE_BI : ZERO_BI;
+  // Liquidity changes never move the price
+  const pingPrice = getPingPriceInPair(pool.currency0, pool.token0Price, pool.token1Price);
+
+  // Derive token amounts from the liquidity delta at the current pool price
+  // Amounts are signed: positive = deposited into pool, negative = withdrawn
+  const { amount0, amount1 } = getLiquidityAmounts(
+    pool.sqrtPriceX96,
+    getSqrtRatioAtTick(Number(tickLower)),
+    getSqrtRatioAtTick(Number(tickUpper)),
+    delta
+  );
+  const amount0Dec = convertSignedTokenToDecimal(amount0, pool.currency0Decimals);
+  const amount1Dec = convertSignedTokenToDecimal(amount1, pool.currency1Decimals);
+
+  // Active liquidity only changes when the position range contains the current tick
+  const isInRange = BigInt(tickLower) <= pool.tick && pool.tick < BigInt(tickUpper);
+  const newLiquidity = isInRange ? pool.liquidity + delta : pool.liquidity;
+
+  const totalValueLockedCurrency0 = pool.totalValueLockedCurrency0.plus(amount0Dec);
+  const totalValueLockedCurrency1 = pool.totalValueLockedCurrency1.plus(amount1Dec);
+  const tvlUSD = getTvlUSD(
+    pool.currency0,
+    pool.currency1,
+    totalValueLockedCurrency0,
+    totalValueLockedCurrency1,
+    await loadUsdPrices(context, chainId)
+  );
+
+  // Update pool liquidity and TVL
+  const updatedPool: PoolV4 = {
+    ...pool,
+    liquidity: newLiquidity,
+    isActive: newLiquidity > ZERO_BI,
+    totalValueLockedCurrency0,
+    totalValueLockedCurrency1,
+    tvlUSD,
+  };
+
+  // Create ModifyLiquidityV4 record
+  const modifyLiquidityEntity: ModifyLiquidityV4 = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    pool_id: poolEntityId,
+    poolId,
+    sender: sender.toLowerCase(),
+    tickLower: BigInt(tickLower),
+    tickUpper: BigInt(tickUpper),
+    liquidityDelta: delta,
+    salt,
+    amount0: amount0Dec,
+    amount1: amount1Dec,
+    modificationType: isAdd ? LIQUIDITY_ADD : LIQUIDITY_REMOVE,
+  };
+
+  // Update or create DailyPoolActivity (unified for V3 and V4)
+  const dayStartTimestamp = getDayStartTimestamp(BigInt(event.block.timestamp));
+
+  const updatedDailyActivity: DailyPoolActivity = dailyActivity
+    ? {
+        ...dailyActivity,
+        liquidityEnd: newLiquidity,
+        tvlUSD,
+        dailyLiquidityAdds: (dailyActivity.dailyLiquidityAdds ?? ZERO_BI) + addCount,
+        dailyLiquidityRemoves: (dailyActivity.dailyLiquidityRemoves ?? ZERO_BI) + removeCount,
+      }
+    : {
+        id: `${poolEntityId}_${dayId}`,
+        chainId,
+        poolIdentifier: poolId,
+        poolVersion: "V4",
+        date: dayId,
+        timestamp: dayStartTimestamp,
+        dailySwaps: ZERO_BI,
+        dailyVolume0: ZERO_BD,
+        dailyVolume1: ZERO_BD,
+        dailyVolumeUSD: ZERO_BD,
+        dailyOrganicVolumeUSD: ZERO_BD,
+        dailyArbitrageVolumeUSD: ZERO_BD,
+        tvlUSD,
+        dailyFees0: ZERO_BD,
+        dailyFees1: ZERO_BD,
+        dailyFeesUSD: ZERO_BD,
+        liquidityStart: pool.liquidity,
+        liquidityEnd: newLiquidity,
+        sqrtPriceX96Start: pool.sqrtPriceX96,
+        sqrtPriceX96End: pool.sqrtPriceX96,
+        token0Price: pool.token0Price,
+        token1Price: pool.token1Price,
+        priceOpen: pingPrice,
+        priceHigh: pingPrice,
+        priceLow: pingPrice,
+        priceClose: pingPrice,
+        avgPriceImpactBps: ZERO_BD,
+        maxPriceImpactBps: ZERO_BD,
+        dailyLiquidityAdds: addCount,
+        dailyLiquidityRemoves: removeCount,
+      };
+
+  // Save all entities
+  context.PoolV4.set(updatedPool);
+  context.ModifyLiquidityV4.set(modifyLiquidityEntity);
+  context.DailyPoolActivity.set(updatedDailyActivity);
+
+  // Update or create the LP position
+  // Positions opened before indexing started are unknown, so their removals are not tracked
+  if (position || delta > ZERO_BI) {
+    const currentPosition =
+      position ??
+      createPosition(
+        positionId,
+        chainId,
+        poolId,
+        "V4",
+        owner,
+        BigInt(tickLower),
+        BigInt(tickUpper),
+        salt,
+        modifyLiquidityEntity.timestamp,
+        event.transaction.hash
+      );
+    context.Position.set(
+      applyPositionLiquidity(
+        currentPosition,
+        poolEntityId,
+        delta,
+        amount0Dec.abs(),
+        amount1Dec.abs(),
+        pool.tick,
+        modifyLiquidityEntity.timestamp,
+        event.transaction.hash
+      )
+    );
+  } else {
+    context.log.warn(
+      `Position for ModifyLiquidity by ${owner} in pool ${poolId} not found. Skipping position update.`
+    );
+  }
+
+  await updateTicks(context, {
+    chainId,
+    poolIdentifier: poolId,
+    poolVersion: "V4",
+    decimals0: pool.currency0Decimals,
+    decimals1: pool.currency1Decimals,
+    tickLower: BigInt(tickLower),
+    tickUpper: BigInt(tickUpper),
+    liquidityDelta: delta,
+    timestamp: modifyLiquidityEntity.timestamp,
+  });
+
+  context.log.info(
+    `ModifyLiquidity (${modifyLiquidityEntity.modificationType}) recorded for pool ${poolId}: ${delta} liquidity at block ${event.block.number}`
+  );
+});
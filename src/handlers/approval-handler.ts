@@ -0,0 +1,43 @@
+/**
+ * Approval event handler
+ * Tracks the current PING allowance of every owner/spender pair, including unlimited approvals
+ */
+import { Ping, Allowance } from "generated";
+import { MAX_UINT256, TOKEN_DECIMALS } from "../utils/constants";
+import { convertTokenToDecimal, normalizeAddress } from "../utils/index";
+import { getAllowanceId } from "../utils/allowance";
+
+Ping.Approval.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const owner = normalizeAddress(event.params.owner);
+  const spender = normalizeAddress(event.params.spender);
+  const allowanceId = getAllowanceId(chainId, owner, spender);
+
+  const allowance = await context.Allowance.get(allowanceId);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  // An approval replaces the previous allowance entirely
+  const updatedAllowance: Allowance = {
+    id: allowanceId,
+    chainId,
+    owner,
+    spender,
+    rawAmount: event.params.value,
+    amount: convertTokenToDecimal(event.params.value, TOKEN_DECIMALS),
+    isUnlimited: event.params.value === MAX_UINT256,
+    lastApprovalAt: BigInt(event.block.timestamp),
+    lastApprovalTxHash: event.transaction.hash,
+    lastSpentAt: allowance?.lastSpentAt,
+    lastSpentTxHash: allowance?.lastSpentTxHash,
+  };
+
+  context.Allowance.set(updatedAllowance);
+
+  context.log.info(
+    `Approval: ${owner} approved ${spender} for ${updatedAllowance.isUnlimited ? "unlimited" : updatedAllowance.amount} PING`
+  );
+});
@@ -0,0 +1,77 @@
+/**
+ * AuthorizationUsed and AuthorizationCanceled event handlers (EIP-3009)
+ * Tracks gasless transfer authorizations submitted by relayers
+ *
+ * AuthorizationUsed is emitted right before the Transfer it authorizes, so a used
+ * authorization is parked in AuthorizationLookup until the transfer handler links it
+ */
+import { Ping, Authorization, AuthorizationLookup } from "generated";
+import { AUTHORIZATION_USED, AUTHORIZATION_CANCELED } from "../utils/constants";
+import { normalizeAddress } from "../utils/index";
+import { getAuthorizationLookupId } from "../utils/authorization";
+
+Ping.AuthorizationUsed.handler(async ({ event, context }) => {
+  // Nothing to load, each nonce can only be used once
+  if (context.isPreload) {
+    return;
+  }
+
+  const chainId = BigInt(event.chainId);
+  const authorizer = normalizeAddress(event.params.authorizer);
+  const nonce = event.params.nonce.toLowerCase();
+
+  const authorization: Authorization = {
+    id: `${chainId}_${authorizer}_${nonce}`,
+    chainId,
+    authorizer,
+    nonce,
+    status: AUTHORIZATION_USED,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    relayer: event.transaction.from ? normalizeAddress(event.transaction.from) : undefined,
+    transfer_id: undefined, // Linked by the transfer handler
+    value: undefined,
+  };
+
+  const lookup: AuthorizationLookup = {
+    id: getAuthorizationLookupId(chainId, event.transaction.hash, authorizer),
+    authorization_id: authorization.id,
+  };
+
+  context.Authorization.set(authorization);
+  context.AuthorizationLookup.set(lookup);
+
+  context.log.info(`Authorization ${nonce} used by ${authorizer}`);
+});
+
+Ping.AuthorizationCanceled.handler(async ({ event, context }) => {
+  // Nothing to load, a canceled nonce can never be used
+  if (context.isPreload) {
+    return;
+  }
+
+  const chainId = BigInt(event.chainId);
+  const authorizer = normalizeAddress(event.params.authorizer);
+  const nonce = event.params.nonce.toLowerCase();
+
+  const authorization: Authorization = {
+    id: `${chainId}_${authorizer}_${nonce}`,
+    chainId,
+    authorizer,
+    nonce,
+    status: AUTHORIZATION_CANCELED,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    relayer: event.transaction.from ? normalizeAddress(event.transaction.from) : undefined,
+    transfer_id: undefined,
+    value: undefined,
+  };
+
+  context.Authorization.set(authorization);
+
+  context.log.info(`Authorization ${nonce} canceled by ${authorizer}`);
+});
@@ -0,0 +1,20 @@
+/**
+ * Swap event handler for the WETH/USDC reference pool
+ * Keeps ETH/USD current so WETH-paired PING pools can be valued in USD
+ */
+import { EthUsdReferencePool } from "generated";
+import { updateEthPrice } from "../utils/pricing";
+
+EthUsdReferencePool.Swap.handler(async ({ event, context }) => {
+  // Nothing to load, the price comes straight from the event
+  if (context.isPreload) {
+    return;
+  }
+
+  updateEthPrice(
+    context,
+    BigInt(event.chainId),
+    event.params.sqrtPriceX96,
+    BigInt(event.block.timestamp)
+  );
+});
@@ -92,6 +92,8 @@ UniswapV3Factory.PoolCreated.handler(async ({ event, context }) => {
     liquidity: ZERO_BI,
     sqrtPriceX96: ZERO_BI,
     tick: ZERO_BI,
+    token0Price: ZERO_BD,
+    token1Price: ZERO_BD,
 
     // Status
     isActive: false, // Will be set to true when liquidity > 0
@@ -105,6 +107,15 @@ UniswapV3Factory.PoolCreated.handler(async ({ event, context }) => {
     totalValueLockedToken0: ZERO_BD,
     totalValueLockedToken1: ZERO_BD,
 
+    // USD values
+    volumeUSD: ZERO_BD,
+    tvlUSD: ZERO_BD,
+
+    // Fee revenue
+    feesToken0: ZERO_BD,
+    feesToken1: ZERO_BD,
+    feesUSD: ZERO_BD,
+
     // Timestamps
     createdAt: BigInt(event.block.timestamp),
     createdAtBlock: BigInt(event.block.number),
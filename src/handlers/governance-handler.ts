@@ -0,0 +1,209 @@
+/**
+ * Role and ownership event handlers for the PING contract
+ * Keeps an audit trail of AccessControl roles and Ownable ownership changes
+ */
+import {
+  Ping,
+  ContractGovernance,
+  OwnershipChange,
+  RoleAdmin,
+  RoleMembership,
+} from "generated";
+import { ADDRESS_ZERO, KNOWN_ROLES, ONE_BI, ZERO_BI } from "../utils/constants";
+import { normalizeAddress } from "../utils/index";
+
+/**
+ * Decode a role hash to its well-known name
+ * @returns Role name, or the hash itself for unknown roles
+ */
+function getRoleName(role: string): string {
+  return KNOWN_ROLES[role.toLowerCase()] ?? role;
+}
+
+/**
+ * Create the governance summary for a contract before its first ownership event
+ */
+function createContractGovernance(chainId: bigint, address: string): ContractGovernance {
+  return {
+    id: `${chainId}_${address}`,
+    chainId,
+    address,
+    owner: ADDRESS_ZERO,
+    ownershipChangeCount: ZERO_BI,
+    lastOwnershipChangeAt: undefined,
+    activeRoleMemberships: ZERO_BI,
+  };
+}
+
+Ping.OwnershipTransferred.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const contractAddress = normalizeAddress(event.srcAddress);
+
+  const governance = await context.ContractGovernance.get(`${chainId}_${contractAddress}`);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  const timestamp = BigInt(event.block.timestamp);
+  const previousOwner = normalizeAddress(event.params.previousOwner);
+  const newOwner = normalizeAddress(event.params.newOwner);
+
+  // Create OwnershipChange record
+  const ownershipChange: OwnershipChange = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp,
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    previousOwner,
+    newOwner,
+  };
+
+  // Update ContractGovernance
+  const currentGovernance = governance ?? createContractGovernance(chainId, contractAddress);
+  const updatedGovernance: ContractGovernance = {
+    ...currentGovernance,
+    owner: newOwner,
+    ownershipChangeCount: currentGovernance.ownershipChangeCount + ONE_BI,
+    lastOwnershipChangeAt: timestamp,
+  };
+
+  // Save all entities
+  context.OwnershipChange.set(ownershipChange);
+  context.ContractGovernance.set(updatedGovernance);
+
+  context.log.info(`Ownership transferred from ${previousOwner} to ${newOwner}`);
+});
+
+Ping.RoleGranted.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const contractAddress = normalizeAddress(event.srcAddress);
+  const role = event.params.role.toLowerCase();
+  const account = normalizeAddress(event.params.account);
+
+  // Load entities in parallel
+  const [membership, governance] = await Promise.all([
+    context.RoleMembership.get(`${chainId}_${contractAddress}_${role}_${account}`),
+    context.ContractGovernance.get(`${chainId}_${contractAddress}`),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  // AccessControl only emits RoleGranted for accounts without the role
+  const wasActive = membership?.active ?? false;
+
+  const updatedMembership: RoleMembership = {
+    id: `${chainId}_${contractAddress}_${role}_${account}`,
+    chainId,
+    contractAddress,
+    role,
+    roleName: getRoleName(role),
+    account,
+    active: true,
+    grantedBy: normalizeAddress(event.params.sender),
+    grantedAt: BigInt(event.block.timestamp),
+    grantedTxHash: event.transaction.hash,
+    revokedBy: membership?.revokedBy,
+    revokedAt: membership?.revokedAt,
+    revokedTxHash: membership?.revokedTxHash,
+  };
+
+  const currentGovernance = governance ?? createContractGovernance(chainId, contractAddress);
+
+  // Save all entities
+  context.RoleMembership.set(updatedMembership);
+  context.ContractGovernance.set({
+    ...currentGovernance,
+    activeRoleMemberships: wasActive
+      ? currentGovernance.activeRoleMemberships
+      : currentGovernance.activeRoleMemberships + ONE_BI,
+  });
+
+  context.log.info(`Role ${updatedMembership.roleName} granted to ${account}`);
+});
+
+Ping.RoleRevoked.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const contractAddress = normalizeAddress(event.srcAddress);
+  const role = event.params.role.toLowerCase();
+  const account = normalizeAddress(event.params.account);
+
+  // Load entities in parallel
+  const [membership, governance] = await Promise.all([
+    context.RoleMembership.get(`${chainId}_${contractAddress}_${role}_${account}`),
+    context.ContractGovernance.get(`${chainId}_${contractAddress}`),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  const wasActive = membership?.active ?? false;
+
+  const updatedMembership: RoleMembership = {
+    id: `${chainId}_${contractAddress}_${role}_${account}`,
+    chainId,
+    contractAddress,
+    role,
+    roleName: getRoleName(role),
+    account,
+    active: false,
+    grantedBy: membership?.grantedBy,
+    grantedAt: membership?.grantedAt,
+    grantedTxHash: membership?.grantedTxHash,
+    revokedBy: normalizeAddress(event.params.sender),
+    revokedAt: BigInt(event.block.timestamp),
+    revokedTxHash: event.transaction.hash,
+  };
+
+  const currentGovernance = governance ?? createContractGovernance(chainId, contractAddress);
+
+  // Save all entities
+  context.RoleMembership.set(updatedMembership);
+  context.ContractGovernance.set({
+    ...currentGovernance,
+    activeRoleMemberships: wasActive
+      ? currentGovernance.activeRoleMemberships - ONE_BI
+      : currentGovernance.activeRoleMemberships,
+  });
+
+  context.log.info(`Role ${updatedMembership.roleName} revoked from ${account}`);
+});
+
+Ping.RoleAdminChanged.handler(async ({ event, context }) => {
+  // Nothing to load, the mapping is overwritten on every change
+  if (context.isPreload) {
+    return;
+  }
+
+  const chainId = BigInt(event.chainId);
+  const contractAddress = normalizeAddress(event.srcAddress);
+  const role = event.params.role.toLowerCase();
+  const adminRole = event.params.newAdminRole.toLowerCase();
+
+  const roleAdmin: RoleAdmin = {
+    id: `${chainId}_${contractAddress}_${role}`,
+    chainId,
+    contractAddress,
+    role,
+    roleName: getRoleName(role),
+    adminRole,
+    adminRoleName: getRoleName(adminRole),
+    previousAdminRole: event.params.previousAdminRole.toLowerCase(),
+    updatedAt: BigInt(event.block.timestamp),
+    transactionHash: event.transaction.hash,
+  };
+
+  context.RoleAdmin.set(roleAdmin);
+
+  context.log.info(
+    `Admin of role ${roleAdmin.roleName} changed to ${roleAdmin.adminRoleName}`
+  );
+});
@@ -4,6 +4,7 @@
  */
 import { UniswapV3Pool, Pool } from "generated";
 import { normalizeAddress } from "../utils/index";
+import { sqrtPriceX96ToTokenPrices } from "../utils/pricing";
 
 UniswapV3Pool.Initialize.handler(async ({ event, context }) => {
   const chainId = BigInt(event.chainId);
@@ -29,11 +30,19 @@ UniswapV3Pool.Initialize.handler(async ({ event, context }) => {
     `Initializing pool ${poolAddress} with sqrtPriceX96: ${event.params.sqrtPriceX96}, tick: ${event.params.tick}`
   );
 
+  const { price0, price1 } = sqrtPriceX96ToTokenPrices(
+    event.params.sqrtPriceX96,
+    pool.token0Decimals,
+    pool.token1Decimals
+  );
+
   // Update pool with initial state
   const updatedPool: Pool = {
     ...pool,
     sqrtPriceX96: event.params.sqrtPriceX96,
     tick: event.params.tick,
+    token0Price: price0,
+    token1Price: price1,
     // Pool becomes active when initialized (will have liquidity soon)
     isActive: true,
   };
@@ -0,0 +1,462 @@
+/**
+ * Mint, Burn and Collect event handlers for Uniswap V3 Pools
+ * Tracks liquidity events, active liquidity, TVL and daily liquidity activity for all PING pools
+ *
+ * TVL follows the pool's actual token balances:
+ * - Mint: tokens are deposited into the pool
+ * - Burn: tokens are only credited to the position, they stay in the pool until collected
+ * - Collect: tokens (principal + fees) leave the pool
+ */
+import {
+  BigDecimal,
+  UniswapV3Pool,
+  Pool,
+  LiquidityEvent,
+  DailyPoolActivity,
+  PoolV3LiquidityLookup,
+} from "generated";
+import {
+  ZERO_BI,
+  ZERO_BD,
+  ONE_BI,
+  LIQUIDITY_EVENT_MINT,
+  LIQUIDITY_EVENT_BURN,
+  LIQUIDITY_EVENT_COLLECT,
+} from "../utils/constants";
+import {
+  convertTokenToDecimal,
+  getDayId,
+  getDayStartTimestamp,
+  normalizeAddress,
+} from "../utils/index";
+import { getPingPriceInPair, getTvlUSD, loadUsdPrices } from "../utils/pricing";
+import { applyPositionLiquidity, createPosition, getV3PositionId } from "../utils/positions";
+import { updateTicks } from "../utils/ticks";
+
+/**
+ * Apply a liquidity delta to the pool's active liquidity
+ * Active liquidity only changes when the position range contains the current tick
+ */
+function applyLiquidityDelta(
+  pool: Pool,
+  tickLower: bigint,
+  tickUpper: bigint,
+  liquidityDelta: bigint
+): bigint {
+  const isInRange = tickLower <= pool.tick && pool.tick < tickUpper;
+  return isInRange ? pool.liquidity + liquidityDelta : pool.liquidity;
+}
+
+/**
+ * Remember the latest liquidity event of a transaction
+ * Lets PING protocol events in the same transaction find their pool
+ */
+function createLiquidityLookup(
+  chainId: bigint,
+  transactionHash: string,
+  liquidityEvent: LiquidityEvent
+): PoolV3LiquidityLookup {
+  return {
+    id: chainId.toString(),
+    transactionHash,
+    pool_id: liquidityEvent.pool_id,
+    liquidityEvent_id: liquidityEvent.id,
+  };
+}
+
+/**
+ * Update or create DailyPoolActivity (unified for V3 and V4) for a liquidity event
+ */
+function updateDailyLiquidityActivity(
+  dailyActivity: DailyPoolActivity | undefined,
+  pool: Pool,
+  dayId: string,
+  timestamp: bigint,
+  newLiquidity: bigint,
+  tvlUSD: BigDecimal,
+  isAdd: boolean
+): DailyPoolActivity {
+  const addCount = isAdd ? ONE_BI : ZERO_BI;
+  const removeCount = isAdd ? ZERO_BI : ONE_BI;
+  // Liquidity events never move the price
+  const pingPrice = getPingPriceInPair(pool.token0, pool.token0Price, pool.token1Price);
+
+  return dailyActivity
+    ? {
+        ...dailyActivity,
+        liquidityEnd: newLiquidity,
+        tvlUSD,
+        dailyLiquidityAdds: (dailyActivity.dailyLiquidityAdds ?? ZERO_BI) + addCount,
+        dailyLiquidityRemoves: (dailyActivity.dailyLiquidityRemoves ?? ZERO_BI) + removeCount,
+      }
+    : {
+        id: `${pool.id}_${dayId}`,
+        chainId: pool.chainId,
+        poolIdentifier: pool.address,
+        poolVersion: "V3",
+        date: dayId,
+        timestamp: getDayStartTimestamp(timestamp),
+        dailySwaps: ZERO_BI,
+        dailyVolume0: ZERO_BD,
+        dailyVolume1: ZERO_BD,
+        dailyVolumeUSD: ZERO_BD,
+        dailyOrganicVolumeUSD: ZERO_BD,
+        dailyArbitrageVolumeUSD: ZERO_BD,
+        tvlUSD,
+        dailyFees0: ZERO_BD,
+        dailyFees1: ZERO_BD,
+        dailyFeesUSD: ZERO_BD,
+        liquidityStart: pool.liquidity,
+        liquidityEnd: newLiquidity,
+        sqrtPriceX96Start: pool.sqrtPriceX96,
+        sqrtPriceX96End: pool.sqrtPriceX96,
+        token0Price: pool.token0Price,
+        token1Price: pool.token1Price,
+        priceOpen: pingPrice,
+        priceHigh: pingPrice,
+        priceLow: pingPrice,
+        priceClose: pingPrice,
+        avgPriceImpactBps: ZERO_BD,
+        maxPriceImpactBps: ZERO_BD,
+        dailyLiquidityAdds: addCount,
+        dailyLiquidityRemoves: removeCount,
+      };
+}
+
+UniswapV3Pool.Mint.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const poolAddress = normalizeAddress(event.srcAddress);
+  const poolId = `${chainId}_${poolAddress}`;
+  const dayId = getDayId(BigInt(event.block.timestamp));
+  const positionId = getV3PositionId(
+    chainId,
+    poolAddress,
+    normalizeAddress(event.params.owner),
+    event.params.tickLower,
+    event.params.tickUpper
+  );
+
+  // Load entities in parallel
+  const [pool, dailyActivity, prices, position] = await Promise.all([
+    context.Pool.get(poolId),
+    context.DailyPoolActivity.get(`${poolId}_${dayId}`),
+    loadUsdPrices(context, chainId),
+    context.Position.get(positionId),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  if (!pool) {
+    context.log.warn(
+      `Pool ${poolAddress} not found in database. Skipping mint event.`
+    );
+    return;
+  }
+
+  const { sender, owner, tickLower, tickUpper, amount } = event.params;
+  const amount0 = convertTokenToDecimal(event.params.amount0, pool.token0Decimals);
+  const amount1 = convertTokenToDecimal(event.params.amount1, pool.token1Decimals);
+  const timestamp = BigInt(event.block.timestamp);
+
+  const newLiquidity = applyLiquidityDelta(pool, tickLower, tickUpper, amount);
+
+  const totalValueLockedToken0 = pool.totalValueLockedToken0.plus(amount0);
+  const totalValueLockedToken1 = pool.totalValueLockedToken1.plus(amount1);
+
+  // Update Pool entity
+  const poolEntity: Pool = {
+    ...pool,
+    liquidity: newLiquidity,
+    isActive: newLiquidity > ZERO_BI,
+    totalValueLockedToken0,
+    totalValueLockedToken1,
+    tvlUSD: getTvlUSD(pool.token0, pool.token1, totalValueLockedToken0, totalValueLockedToken1, prices),
+  };
+
+  // Create LiquidityEvent record
+  const liquidityEvent: LiquidityEvent = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp,
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    pool_id: poolId,
+    eventType: LIQUIDITY_EVENT_MINT,
+    owner: normalizeAddress(owner),
+    sender: normalizeAddress(sender),
+    recipient: undefined,
+    tickLower,
+    tickUpper,
+    liquidity: amount,
+    amount0,
+    amount1,
+  };
+
+  // Update or create the LP position
+  const currentPosition =
+    position ??
+    createPosition(
+      positionId,
+      chainId,
+      poolAddress,
+      "V3",
+      normalizeAddress(owner),
+      tickLower,
+      tickUpper,
+      undefined,
+      timestamp,
+      event.transaction.hash
+    );
+  const updatedPosition = applyPositionLiquidity(
+    currentPosition,
+    poolId,
+    amount,
+    amount0,
+    amount1,
+    pool.tick,
+    timestamp,
+    event.transaction.hash
+  );
+
+  // Save all entities
+  context.Pool.set(poolEntity);
+  context.LiquidityEvent.set(liquidityEvent);
+  context.Position.set(updatedPosition);
+  context.PoolV3LiquidityLookup.set(
+    createLiquidityLookup(chainId, event.transaction.hash, liquidityEvent)
+  );
+  context.DailyPoolActivity.set(
+    updateDailyLiquidityActivity(
+      dailyActivity, pool, dayId, timestamp, newLiquidity, poolEntity.tvlUSD, true
+    )
+  );
+  await updateTicks(context, {
+    chainId,
+    poolIdentifier: poolAddress,
+    poolVersion: "V3",
+    decimals0: pool.token0Decimals,
+    decimals1: pool.token1Decimals,
+    tickLower,
+    tickUpper,
+    liquidityDelta: amount,
+    timestamp,
+  });
+
+  context.log.info(
+    `Processed mint for pool ${poolAddress}: ${amount0} token0 / ${amount1} token1`
+  );
+});
+
+UniswapV3Pool.Burn.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const poolAddress = normalizeAddress(event.srcAddress);
+  const poolId = `${chainId}_${poolAddress}`;
+  const dayId = getDayId(BigInt(event.block.timestamp));
+
+  // Load entities in parallel
+  const [pool, dailyActivity, position] = await Promise.all([
+    context.Pool.get(poolId),
+    context.DailyPoolActivity.get(`${poolId}_${dayId}`),
+    context.Position.get(
+      getV3PositionId(
+        chainId,
+        poolAddress,
+        normalizeAddress(event.params.owner),
+        event.params.tickLower,
+        event.params.tickUpper
+      )
+    ),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  if (!pool) {
+    context.log.warn(
+      `Pool ${poolAddress} not found in database. Skipping burn event.`
+    );
+    return;
+  }
+
+  const { owner, tickLower, tickUpper, amount } = event.params;
+  const amount0 = convertTokenToDecimal(event.params.amount0, pool.token0Decimals);
+  const amount1 = convertTokenToDecimal(event.params.amount1, pool.token1Decimals);
+  const timestamp = BigInt(event.block.timestamp);
+
+  const newLiquidity = applyLiquidityDelta(pool, tickLower, tickUpper, -amount);
+
+  // Update Pool entity
+  // Burned tokens stay in the pool until collected, so TVL is unchanged here
+  const poolEntity: Pool = {
+    ...pool,
+    liquidity: newLiquidity,
+    isActive: newLiquidity > ZERO_BI,
+  };
+
+  // Create LiquidityEvent record
+  const liquidityEvent: LiquidityEvent = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp,
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    pool_id: poolId,
+    eventType: LIQUIDITY_EVENT_BURN,
+    owner: normalizeAddress(owner),
+    sender: undefined,
+    recipient: undefined,
+    tickLower,
+    tickUpper,
+    liquidity: amount,
+    amount0,
+    amount1,
+  };
+
+  // Save all entities
+  context.Pool.set(poolEntity);
+  context.LiquidityEvent.set(liquidityEvent);
+
+  // Positions minted before indexing started are unknown, so their burns are not tracked
+  if (position) {
+    context.Position.set(
+      applyPositionLiquidity(
+        position,
+        poolId,
+        -amount,
+        amount0,
+        amount1,
+        pool.tick,
+        timestamp,
+        event.transaction.hash
+      )
+    );
+  } else {
+    context.log.warn(
+      `Position for burn by ${normalizeAddress(owner)} in pool ${poolAddress} not found. Skipping position update.`
+    );
+  }
+
+  // A zero-amount burn only pokes the position to accrue fees, so it is not counted
+  if (amount > ZERO_BI) {
+    context.DailyPoolActivity.set(
+      updateDailyLiquidityActivity(
+        dailyActivity, pool, dayId, timestamp, newLiquidity, pool.tvlUSD, false
+      )
+    );
+  }
+  await updateTicks(context, {
+    chainId,
+    poolIdentifier: poolAddress,
+    poolVersion: "V3",
+    decimals0: pool.token0Decimals,
+    decimals1: pool.token1Decimals,
+    tickLower,
+    tickUpper,
+    liquidityDelta: -amount,
+    timestamp,
+  });
+
+  context.log.info(
+    `Processed burn for pool ${poolAddress}: ${amount0} token0 / ${amount1} token1`
+  );
+});
+
+UniswapV3Pool.Collect.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+  const poolAddress = normalizeAddress(event.srcAddress);
+  const poolId = `${chainId}_${poolAddress}`;
+
+  const [pool, prices, position] = await Promise.all([
+    context.Pool.get(poolId),
+    loadUsdPrices(context, chainId),
+    context.Position.get(
+      getV3PositionId(
+        chainId,
+        poolAddress,
+        normalizeAddress(event.params.owner),
+        event.params.tickLower,
+        event.params.tickUpper
+      )
+    ),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  if (!pool) {
+    context.log.warn(
+      `Pool ${poolAddress} not found in database. Skipping collect event.`
+    );
+    return;
+  }
+
+  const { owner, recipient, tickLower, tickUpper } = event.params;
+  const amount0 = convertTokenToDecimal(event.params.amount0, pool.token0Decimals);
+  const amount1 = convertTokenToDecimal(event.params.amount1, pool.token1Decimals);
+
+  const totalValueLockedToken0 = pool.totalValueLockedToken0.minus(amount0);
+  const totalValueLockedToken1 = pool.totalValueLockedToken1.minus(amount1);
+
+  // Update Pool entity - collected tokens leave the pool
+  const poolEntity: Pool = {
+    ...pool,
+    totalValueLockedToken0,
+    totalValueLockedToken1,
+    tvlUSD: getTvlUSD(pool.token0, pool.token1, totalValueLockedToken0, totalValueLockedToken1, prices),
+  };
+
+  // Create LiquidityEvent record
+  const liquidityEvent: LiquidityEvent = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    pool_id: poolId,
+    eventType: LIQUIDITY_EVENT_COLLECT,
+    owner: normalizeAddress(owner),
+    sender: undefined,
+    recipient: normalizeAddress(recipient),
+    tickLower,
+    tickUpper,
+    liquidity: ZERO_BI,
+    amount0,
+    amount1,
+  };
+
+  // Save all entities
+  context.Pool.set(poolEntity);
+  context.LiquidityEvent.set(liquidityEvent);
+  context.PoolV3LiquidityLookup.set(
+    createLiquidityLookup(chainId, event.transaction.hash, liquidityEvent)
+  );
+
+  // Positions minted before indexing started are unknown, so their collects are not tracked
+  if (position) {
+    context.Position.set({
+      ...position,
+      collectedToken0: position.collectedToken0.plus(amount0),
+      collectedToken1: position.collectedToken1.plus(amount1),
+      lastUpdatedAt: liquidityEvent.timestamp,
+      lastTransactionHash: event.transaction.hash,
+    });
+  } else {
+    context.log.warn(
+      `Position for collect by ${normalizeAddress(owner)} in pool ${poolAddress} not found. Skipping position update.`
+    );
+  }
+
+  context.log.info(
+    `Processed collect for pool ${poolAddress}: ${amount0} token0 / ${amount1} token1`
+  );
+});
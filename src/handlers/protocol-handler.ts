@@ -0,0 +1,244 @@
+/**
+ * FeesCollected and LiquidityDeployed event handlers for the PING contract
+ * Tracks protocol-owned liquidity deployed into Uniswap V3 and the fees it collects
+ *
+ * Both events are emitted right after the position manager touches the pool, so the
+ * V3 Mint/Collect earlier in the same transaction identifies the pool and position
+ */
+import {
+  Ping,
+  Pool,
+  Protocol,
+  ProtocolFeeCollection,
+  ProtocolLiquidityDeployment,
+  ProtocolTokenFees,
+  BigDecimal,
+} from "generated";
+import {
+  ZERO_BI,
+  ZERO_BD,
+  ONE_BI,
+  LIQUIDITY_EVENT_MINT,
+  LIQUIDITY_EVENT_COLLECT,
+} from "../utils/constants";
+import { convertTokenToDecimal, normalizeAddress } from "../utils/index";
+import { getV3PositionId } from "../utils/positions";
+import { getTokenPriceUSD, loadUsdPrices } from "../utils/pricing";
+
+/**
+ * Create an empty Protocol summary for a chain
+ */
+function createProtocol(chainId: bigint): Protocol {
+  return {
+    id: chainId.toString(),
+    chainId,
+    totalFeesUSD: ZERO_BD,
+    feeCollectionCount: ZERO_BI,
+    lastFeesCollectedAt: undefined,
+    totalLiquidityDeployed: ZERO_BI,
+    liquidityDeploymentCount: ZERO_BI,
+    lastLiquidityDeployedAt: undefined,
+  };
+}
+
+/**
+ * Add fees collected in one token to its running protocol totals
+ */
+function applyTokenFees(
+  current: ProtocolTokenFees | undefined,
+  chainId: bigint,
+  token: string,
+  amount: BigDecimal,
+  amountUSD: BigDecimal,
+  timestamp: bigint
+): ProtocolTokenFees {
+  return {
+    id: `${chainId}_${token}`,
+    chainId,
+    token,
+    totalFees: (current?.totalFees ?? ZERO_BD).plus(amount),
+    totalFeesUSD: (current?.totalFeesUSD ?? ZERO_BD).plus(amountUSD),
+    collectionCount: (current?.collectionCount ?? ZERO_BI) + ONE_BI,
+    lastCollectedAt: timestamp,
+  };
+}
+
+Ping.FeesCollected.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+
+  // Load entities in parallel
+  const [protocol, liquidityLookup, prices] = await Promise.all([
+    context.Protocol.get(chainId.toString()),
+    context.PoolV3LiquidityLookup.get(chainId.toString()),
+    loadUsdPrices(context, chainId),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  // The pool collected from in this transaction identifies the tokens and decimals
+  const collectEvent =
+    liquidityLookup?.transactionHash === event.transaction.hash
+      ? await context.LiquidityEvent.get(liquidityLookup.liquidityEvent_id)
+      : undefined;
+  const isCollect = collectEvent?.eventType === LIQUIDITY_EVENT_COLLECT;
+  const pool: Pool | undefined = isCollect
+    ? await context.Pool.get(collectEvent.pool_id)
+    : undefined;
+
+  if (!pool) {
+    context.log.warn(
+      `No V3 collect found for FeesCollected in tx ${event.transaction.hash}. Recording raw amounts only.`
+    );
+  }
+
+  const timestamp = BigInt(event.block.timestamp);
+  const amountToken0 = pool
+    ? convertTokenToDecimal(event.params.amountToken0, pool.token0Decimals)
+    : undefined;
+  const amountToken1 = pool
+    ? convertTokenToDecimal(event.params.amountToken1, pool.token1Decimals)
+    : undefined;
+
+  // Each token is valued on its own, as the pools order their tokens differently
+  const amountToken0USD =
+    pool && amountToken0 ? amountToken0.times(getTokenPriceUSD(pool.token0, prices)) : ZERO_BD;
+  const amountToken1USD =
+    pool && amountToken1 ? amountToken1.times(getTokenPriceUSD(pool.token1, prices)) : ZERO_BD;
+  const amountUSD = amountToken0USD.plus(amountToken1USD);
+
+  // Create ProtocolFeeCollection record
+  const feeCollection: ProtocolFeeCollection = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp,
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    recipient: normalizeAddress(event.params.recipient),
+    pool_id: pool?.id,
+    collectEvent_id: isCollect ? collectEvent.id : undefined,
+    rawAmountToken0: event.params.amountToken0,
+    rawAmountToken1: event.params.amountToken1,
+    token0: pool?.token0,
+    token1: pool?.token1,
+    amountToken0,
+    amountToken1,
+    amountUSD,
+  };
+
+  // Update Protocol summary
+  const currentProtocol = protocol ?? createProtocol(chainId);
+  const updatedProtocol: Protocol = {
+    ...currentProtocol,
+    totalFeesUSD: currentProtocol.totalFeesUSD.plus(amountUSD),
+    feeCollectionCount: currentProtocol.feeCollectionCount + ONE_BI,
+    lastFeesCollectedAt: timestamp,
+  };
+
+  // Update per-token fee totals when the pool (and so the tokens) is known
+  if (pool && amountToken0 && amountToken1) {
+    const token0 = normalizeAddress(pool.token0);
+    const token1 = normalizeAddress(pool.token1);
+    const [token0Fees, token1Fees] = await Promise.all([
+      context.ProtocolTokenFees.get(`${chainId}_${token0}`),
+      context.ProtocolTokenFees.get(`${chainId}_${token1}`),
+    ]);
+
+    context.ProtocolTokenFees.set(
+      applyTokenFees(token0Fees, chainId, token0, amountToken0, amountToken0USD, timestamp)
+    );
+    context.ProtocolTokenFees.set(
+      applyTokenFees(token1Fees, chainId, token1, amountToken1, amountToken1USD, timestamp)
+    );
+  }
+
+  // Save all entities
+  context.ProtocolFeeCollection.set(feeCollection);
+  context.Protocol.set(updatedProtocol);
+
+  context.log.info(
+    `Protocol fees collected from pool ${pool?.address ?? "unknown"}: ${event.params.amountToken0} / ${event.params.amountToken1} (raw)`
+  );
+});
+
+Ping.LiquidityDeployed.handler(async ({ event, context }) => {
+  const chainId = BigInt(event.chainId);
+
+  // Load entities in parallel
+  const [protocol, liquidityLookup] = await Promise.all([
+    context.Protocol.get(chainId.toString()),
+    context.PoolV3LiquidityLookup.get(chainId.toString()),
+  ]);
+
+  // Skip actual processing during preload phase
+  if (context.isPreload) {
+    return;
+  }
+
+  // Link the position to the V3 Mint in the same transaction
+  const liquidityEvent =
+    liquidityLookup?.transactionHash === event.transaction.hash
+      ? await context.LiquidityEvent.get(liquidityLookup.liquidityEvent_id)
+      : undefined;
+  const mintEvent =
+    liquidityEvent?.eventType === LIQUIDITY_EVENT_MINT ? liquidityEvent : undefined;
+
+  if (!mintEvent) {
+    context.log.warn(
+      `No V3 mint found for LiquidityDeployed tokenId ${event.params.tokenId} in tx ${event.transaction.hash}`
+    );
+  }
+
+  // The mint's owner and range identify the LP position
+  const mintPool = mintEvent ? await context.Pool.get(mintEvent.pool_id) : undefined;
+  const positionId =
+    mintEvent && mintPool
+      ? getV3PositionId(
+          chainId,
+          mintPool.address,
+          mintEvent.owner,
+          mintEvent.tickLower,
+          mintEvent.tickUpper
+        )
+      : undefined;
+
+  const { tokenId, liquidity } = event.params;
+  const timestamp = BigInt(event.block.timestamp);
+
+  // Create ProtocolLiquidityDeployment record
+  const deployment: ProtocolLiquidityDeployment = {
+    id: `${chainId}_${event.block.number}_${event.logIndex}`,
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp,
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    tokenId,
+    liquidity,
+    pool_id: mintEvent?.pool_id,
+    mintEvent_id: mintEvent?.id,
+    position_id: positionId,
+    tickLower: mintEvent?.tickLower,
+    tickUpper: mintEvent?.tickUpper,
+  };
+
+  // Update Protocol summary
+  const currentProtocol = protocol ?? createProtocol(chainId);
+  const updatedProtocol: Protocol = {
+    ...currentProtocol,
+    totalLiquidityDeployed: currentProtocol.totalLiquidityDeployed + liquidity,
+    liquidityDeploymentCount: currentProtocol.liquidityDeploymentCount + ONE_BI,
+    lastLiquidityDeployedAt: timestamp,
+  };
+
+  // Save all entities
+  context.ProtocolLiquidityDeployment.set(deployment);
+  context.Protocol.set(updatedProtocol);
+
+  context.log.info(
+    `Protocol liquidity deployed: tokenId ${tokenId}, liquidity ${liquidity}`
+  );
+});
@@ -13,9 +13,26 @@ import {
 import {
   convertTokenToDecimal,
   getDayId,
+  getFeeAmount,
   getDayStartTimestamp,
   normalizeAddress,
 } from "../utils/index";
+import { recordDailyTrader } from "../utils/daily-activity";
+import { loadSwapCandles, recordSwapCandles } from "../utils/candles";
+import { PoolTrade, applyPoolTrade } from "../utils/trader-pnl";
+import { createTrade } from "../utils/trade";
+import { loadOpenPositions, refreshPositionsInRange } from "../utils/positions";
+import { detectSandwich } from "../utils/mev";
+import { detectArbitrage } from "../utils/arbitrage";
+import {
+  getExecutionPrice,
+  getPingPriceInPair,
+  getPriceImpactBps,
+  getSwapAmountUSD,
+  getTvlUSD,
+  sqrtPriceX96ToTokenPrices,
+  updatePingPrice,
+} from "../utils/pricing";
 
 UniswapV3Pool.Swap.handler(async ({ event, context }) => {
   const chainId = BigInt(event.chainId);
@@ -26,9 +43,11 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
   const dayId = getDayId(BigInt(event.block.timestamp));
 
   // Load entities in parallel
-  const [pool, dailyActivity] = await Promise.all([
+  const [pool, dailyActivity, candleBuckets, openPositions] = await Promise.all([
     context.Pool.get(poolId),
     context.DailyPoolActivity.get(`${poolId}_${dayId}`),
+    loadSwapCandles(context, chainId, poolAddress, BigInt(event.block.timestamp)),
+    loadOpenPositions(context, poolId),
   ]);
 
   // Skip actual processing during preload phase
@@ -50,8 +69,9 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
   const token1Decimals = pool.token1Decimals;
 
   // Convert amounts to decimal
-  // In Uniswap V3, negative amount means tokens going into the pool
-  // Positive amount means tokens coming out of the pool
+  // In Uniswap V3, amounts are deltas of the pool's balances:
+  // positive amount means tokens going into the pool,
+  // negative amount means tokens coming out of the pool
   const amount0Raw = event.params.amount0;
   const amount1Raw = event.params.amount1;
 
@@ -76,19 +96,75 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
   const currentLiquidity = event.params.liquidity;
   const isActive = currentLiquidity > ZERO_BI;
 
+  // Swap amounts are pool balance deltas, so they apply to TVL directly
+  const totalValueLockedToken0 = pool.totalValueLockedToken0.plus(amount0Signed);
+  const totalValueLockedToken1 = pool.totalValueLockedToken1.plus(amount1Signed);
+
+  // Update PING/USD from the new pool price, then value the swap and TVL in USD
+  const prices = await updatePingPrice(
+    context,
+    chainId,
+    {
+      identifier: poolAddress,
+      version: "V3",
+      token0: pool.token0,
+      token1: pool.token1,
+      decimals0: token0Decimals,
+      decimals1: token1Decimals,
+      sqrtPriceX96: event.params.sqrtPriceX96,
+      tvl0: totalValueLockedToken0,
+      tvl1: totalValueLockedToken1,
+    },
+    BigInt(event.block.timestamp),
+    BigInt(event.block.number)
+  );
+  const volumeUSD = getSwapAmountUSD(pool.token0, pool.token1, amount0Abs, amount1Abs, prices);
+
+  // Fees are charged on the input side (positive pool delta) at the pool's fee tier
+  const feeAmount0 = amount0Raw > 0 ? getFeeAmount(amount0Abs, pool.feeTier) : ZERO_BD;
+  const feeAmount1 = amount1Raw > 0 ? getFeeAmount(amount1Abs, pool.feeTier) : ZERO_BD;
+  const feesUSD = getSwapAmountUSD(pool.token0, pool.token1, feeAmount0, feeAmount1, prices);
+  const tvlUSD = getTvlUSD(
+    pool.token0,
+    pool.token1,
+    totalValueLockedToken0,
+    totalValueLockedToken1,
+    prices
+  );
+
+  // Decode the post-swap price, and the PING price before and after the swap
+  const { price0: token0Price, price1: token1Price } = sqrtPriceX96ToTokenPrices(
+    event.params.sqrtPriceX96,
+    token0Decimals,
+    token1Decimals
+  );
+  const pingPriceBefore = getPingPriceInPair(pool.token0, pool.token0Price, pool.token1Price);
+  const pingPrice = getPingPriceInPair(pool.token0, token0Price, token1Price);
+
+  // Price impact of the swap against the pre-swap mid price
+  const executionPrice = getExecutionPrice(pool.token0, amount0Abs, amount1Abs);
+  const priceImpactBps = getPriceImpactBps(executionPrice, pingPriceBefore);
+
   // Update Pool entity
   const poolEntity: Pool = {
     ...pool,
     liquidity: currentLiquidity,
     sqrtPriceX96: event.params.sqrtPriceX96,
     tick: event.params.tick,
+    token0Price,
+    token1Price,
     isActive,
     volumeToken0: pool.volumeToken0.plus(amount0Abs),
     volumeToken1: pool.volumeToken1.plus(amount1Abs),
+    totalValueLockedToken0,
+    totalValueLockedToken1,
+    volumeUSD: pool.volumeUSD.plus(volumeUSD),
+    tvlUSD,
+    feesToken0: pool.feesToken0.plus(feeAmount0),
+    feesToken1: pool.feesToken1.plus(feeAmount1),
+    feesUSD: pool.feesUSD.plus(feesUSD),
     txCount: pool.txCount + ONE_BI,
     lastSwapAt: BigInt(event.block.timestamp),
-    // Note: totalValueLocked calculations would require price data
-    // For now, we're not updating TVL in the swap handler
   };
 
   // Create Swap record
@@ -104,11 +180,40 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
     recipient: normalizeAddress(event.params.recipient),
     amount0: amount0Signed,
     amount1: amount1Signed,
+    volumeUSD,
+    feeAmount0,
+    feeAmount1,
     sqrtPriceX96: event.params.sqrtPriceX96,
     liquidity: currentLiquidity,
     tick: event.params.tick,
+    token0Price,
+    token1Price,
+    sqrtPriceX96Before: pool.sqrtPriceX96,
+    tickBefore: pool.tick,
+    midPrice: pingPriceBefore,
+    executionPrice,
+    priceImpactBps,
   };
 
+  // Create the unified Trade record
+  // Buys pay out to the recipient, sells are funded by the transaction initiator
+  const trade = createTrade({
+    chainId,
+    transactionHash: event.transaction.hash,
+    timestamp: BigInt(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    poolIdentifier: poolAddress,
+    poolVersion: "V3",
+    token0: pool.token0,
+    token1: pool.token1,
+    traderAmount0: amount0Signed.negated(),
+    traderAmount1: amount1Signed.negated(),
+    volumeUSD,
+    buyer: event.params.recipient,
+    seller: event.transaction.from ?? event.params.sender,
+  });
+
   // Track Account buy/sell activity based on transaction initiator
   // Normalize PING token address for comparison
   const pingAddress = normalizeAddress(PING_TOKEN_ADDRESS);
@@ -137,25 +242,40 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
       let isSell = false;
       let pingAmount = ZERO_BD;
 
+      // The paired token is the quote side of the trade
+      const quoteToken = isPingToken0 ? token1Address : token0Address;
+      const quoteAmount = isPingToken0 ? amount1Abs : amount0Abs;
+      const poolTrade: Omit<PoolTrade, "isBuy" | "pingAmount"> = {
+        chainId,
+        transactionHash: txHash,
+        timestamp,
+        blockNumber: BigInt(event.block.number),
+        logIndex: BigInt(event.logIndex),
+        poolIdentifier: poolAddress,
+        poolVersion: "V3",
+        quoteToken,
+        quoteAmount,
+      };
+
       if (isPingToken0) {
         // PING is token0
-        // Positive amount0 = PING coming out of pool (BUY)
-        // Negative amount0 = PING going into pool (SELL)
-        if (amount0Raw > 0) {
+        // Negative amount0 = PING coming out of pool (BUY)
+        // Positive amount0 = PING going into pool (SELL)
+        if (amount0Raw < 0) {
           isBuy = true;
           pingAmount = amount0Abs;
-        } else if (amount0Raw < 0) {
+        } else if (amount0Raw > 0) {
           isSell = true;
           pingAmount = amount0Abs;
         }
       } else if (isPingToken1) {
         // PING is token1
-        // Positive amount1 = PING coming out of pool (BUY)
-        // Negative amount1 = PING going into pool (SELL)
-        if (amount1Raw > 0) {
+        // Negative amount1 = PING coming out of pool (BUY)
+        // Positive amount1 = PING going into pool (SELL)
+        if (amount1Raw < 0) {
           isBuy = true;
           pingAmount = amount1Abs;
-        } else if (amount1Raw < 0) {
+        } else if (amount1Raw > 0) {
           isSell = true;
           pingAmount = amount1Abs;
         }
@@ -167,13 +287,19 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
         const account = await context.Account.get(accountId);
 
         if (account) {
+          const { account: tradedAccount, accountTrade } = applyPoolTrade(
+            account,
+            { ...poolTrade, isBuy: true, pingAmount },
+            prices
+          );
           context.Account.set({
-            ...account,
+            ...tradedAccount,
             lastBuyAt: timestamp,
             lastBuyHash: txHash,
             totalBuys: account.totalBuys + ONE_BI,
             totalBuyVolume: account.totalBuyVolume.plus(pingAmount),
           });
+          context.AccountTrade.set(accountTrade);
 
           context.log.info(
             `Updated BUY for account ${recipient}: ${pingAmount} PING`
@@ -187,19 +313,36 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
         const account = await context.Account.get(accountId);
 
         if (account) {
+          const { account: tradedAccount, accountTrade } = applyPoolTrade(
+            account,
+            { ...poolTrade, isBuy: false, pingAmount },
+            prices
+          );
           context.Account.set({
-            ...account,
+            ...tradedAccount,
             lastSellAt: timestamp,
             lastSellHash: txHash,
             totalSells: account.totalSells + ONE_BI,
             totalSellVolume: account.totalSellVolume.plus(pingAmount),
           });
+          context.AccountTrade.set(accountTrade);
 
           context.log.info(
             `Updated SELL for account ${txInitiator}: ${pingAmount} PING`
           );
         }
       }
+
+      // Count unique daily buyers/sellers (buyer is the recipient, seller the initiator)
+      if ((isBuy || isSell) && pingAmount.gt(ZERO_BD)) {
+        await recordDailyTrader(
+          context,
+          chainId,
+          isBuy ? recipient : txInitiator,
+          timestamp,
+          isBuy
+        );
+      }
     }
   }
 
@@ -212,8 +355,27 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
         dailySwaps: dailyActivity.dailySwaps + ONE_BI,
         dailyVolume0: dailyActivity.dailyVolume0.plus(amount0Abs),
         dailyVolume1: dailyActivity.dailyVolume1.plus(amount1Abs),
+        dailyVolumeUSD: dailyActivity.dailyVolumeUSD.plus(volumeUSD),
+        // Arbitrage legs are moved out once the transaction is classified
+        dailyOrganicVolumeUSD: dailyActivity.dailyOrganicVolumeUSD.plus(volumeUSD),
+        tvlUSD,
+        dailyFees0: dailyActivity.dailyFees0.plus(feeAmount0),
+        dailyFees1: dailyActivity.dailyFees1.plus(feeAmount1),
+        dailyFeesUSD: dailyActivity.dailyFeesUSD.plus(feesUSD),
         liquidityEnd: currentLiquidity,
         sqrtPriceX96End: event.params.sqrtPriceX96,
+        token0Price,
+        token1Price,
+        priceHigh: pingPrice.gt(dailyActivity.priceHigh) ? pingPrice : dailyActivity.priceHigh,
+        priceLow: pingPrice.lt(dailyActivity.priceLow) ? pingPrice : dailyActivity.priceLow,
+        priceClose: pingPrice,
+        avgPriceImpactBps: dailyActivity.avgPriceImpactBps
+          .times(dailyActivity.dailySwaps.toString())
+          .plus(priceImpactBps)
+          .div((dailyActivity.dailySwaps + ONE_BI).toString()),
+        maxPriceImpactBps: priceImpactBps.gt(dailyActivity.maxPriceImpactBps)
+          ? priceImpactBps
+          : dailyActivity.maxPriceImpactBps,
       }
     : {
         id: `${poolId}_${dayId}`,
@@ -225,18 +387,76 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
         dailySwaps: ONE_BI,
         dailyVolume0: amount0Abs,
         dailyVolume1: amount1Abs,
+        dailyVolumeUSD: volumeUSD,
+        dailyOrganicVolumeUSD: volumeUSD,
+        dailyArbitrageVolumeUSD: ZERO_BD,
+        tvlUSD,
+        dailyFees0: feeAmount0,
+        dailyFees1: feeAmount1,
+        dailyFeesUSD: feesUSD,
         liquidityStart: currentLiquidity,
         liquidityEnd: currentLiquidity,
         sqrtPriceX96Start: event.params.sqrtPriceX96,
         sqrtPriceX96End: event.params.sqrtPriceX96,
-        dailyLiquidityAdds: undefined,
-        dailyLiquidityRemoves: undefined,
+        token0Price,
+        token1Price,
+        // The day opens at the price before its first swap
+        priceOpen: pingPriceBefore,
+        priceHigh: pingPrice.gt(pingPriceBefore) ? pingPrice : pingPriceBefore,
+        priceLow: pingPrice.lt(pingPriceBefore) ? pingPrice : pingPriceBefore,
+        priceClose: pingPrice,
+        avgPriceImpactBps: priceImpactBps,
+        maxPriceImpactBps: priceImpactBps,
+        dailyLiquidityAdds: ZERO_BI,
+        dailyLiquidityRemoves: ZERO_BI,
       };
 
   // Save all entities
   context.Pool.set(poolEntity);
   context.Swap.set(swapEntity);
   context.DailyPoolActivity.set(updatedDailyActivity);
+  if (trade) {
+    context.Trade.set(trade);
+  }
+
+  // Check for a sandwich around earlier swaps in this pool and block
+  if (trade && event.transaction.from) {
+    await detectSandwich(context, trade, event.transaction.from, prices);
+  }
+
+  // Check for arbitrage across PING pools in this transaction
+  if (trade) {
+    await detectArbitrage(context, trade, event.transaction.from ?? trade.trader, prices);
+  }
+
+  // Positions may have moved in or out of range
+  if (event.params.tick !== pool.tick) {
+    refreshPositionsInRange(context, openPositions, event.params.tick);
+  }
+
+  // Update hourly data and candles
+  recordSwapCandles(
+    context,
+    {
+      chainId,
+      poolIdentifier: poolAddress,
+      poolVersion: "V3",
+      timestamp: BigInt(event.block.timestamp),
+      priceBefore: pingPriceBefore,
+      price: pingPrice,
+      amount0: amount0Abs,
+      amount1: amount1Abs,
+      volumeUSD,
+      fees0: feeAmount0,
+      fees1: feeAmount1,
+      liquidity: currentLiquidity,
+      sqrtPriceX96: event.params.sqrtPriceX96,
+      token0Price,
+      token1Price,
+      tvlUSD,
+    },
+    candleBuckets
+  );
 
   context.log.info(
     `Processed swap for pool ${poolAddress}: ${amount0Abs} token0 / ${amount1Abs} token1`
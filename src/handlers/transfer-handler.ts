@@ -3,7 +3,18 @@
  * Tracks token transfers, account balances, buy/sell activity, and daily metrics
  * Supports both Uniswap V3 and V4 pools
  */
-import { Ping, Account, Transfer, Token, DailyTokenActivity, Pool, PoolV4 } from "generated";
+import {
+  Ping,
+  Account,
+  AccountPair,
+  Transfer,
+  Token,
+  DailyTokenActivity,
+  SupplyChange,
+  Pool,
+  PoolV4,
+  PoolV4SwapLookup,
+} from "generated";
 import {
   PING_TOKEN_ADDRESS,
   TOKEN_DECIMALS,
@@ -17,28 +28,96 @@ import {
   POOL_RELATION_NONE,
   ADDRESS_ZERO,
   UNISWAP_V4_POOL_MANAGER,
+  SUPPLY_CHANGE_MINT,
+  SUPPLY_CHANGE_BURN,
 } from "../utils/constants";
 import {
   convertTokenToDecimal,
   getDayId,
-  getDayStartTimestamp,
   normalizeAddress,
 } from "../utils/index";
+import {
+  createDailyTokenActivity,
+  getAccountDayActivityId,
+  markAccountDayActivity,
+} from "../utils/daily-activity";
+import { createAccount } from "../utils/account";
+import { loadUsdPrices } from "../utils/pricing";
+import { getAllowanceId, spendAllowance } from "../utils/allowance";
+import { getAuthorizationLookupId } from "../utils/authorization";
+import {
+  createBalanceSnapshot,
+  getAccountDailyBalanceId,
+  updateAccountDailyBalance,
+} from "../utils/balance-history";
+import {
+  applyHolderBalanceChange,
+  createEmptyHolderDistribution,
+} from "../utils/holder-distribution";
+
+/**
+ * Get the V4 pool a PoolManager transfer settles
+ * Picks the latest swap that moved exactly the transferred PING amount, falling
+ * back to the latest swap when settlement was netted across swaps
+ * @param lookup - PING V4 swaps of the transfer's transaction
+ * @param value - Raw transferred amount
+ * @returns PoolV4 entity ID
+ */
+function getSwappedPoolV4Id(lookup: PoolV4SwapLookup, value: bigint): string {
+  const index = lookup.pingAmounts.lastIndexOf(value);
+  return lookup.poolIds[index === -1 ? lookup.poolIds.length - 1 : index];
+}
 
 Ping.Transfer.handler(async ({ event, context }) => {
   const chainId = BigInt(event.chainId);
   const tokenId = `${chainId}_${normalizeAddress(PING_TOKEN_ADDRESS)}`;
   const fromAddress = normalizeAddress(event.params.from);
   const toAddress = normalizeAddress(event.params.to);
+  const dayId = getDayId(BigInt(event.block.timestamp));
+
+  // A transfer of someone else's tokens by the tx sender may spend their allowance
+  const txFrom = event.transaction.from ? normalizeAddress(event.transaction.from) : undefined;
+  const allowanceId = txFrom && txFrom !== fromAddress
+    ? getAllowanceId(chainId, fromAddress, txFrom)
+    : undefined;
 
   // Load entities in parallel for better performance
-  const [token, fromAccount, toAccount, dailyActivity] = await Promise.all([
+  const [
+    token,
+    fromAccount,
+    toAccount,
+    dailyActivity,
+    fromDayActivity,
+    toDayActivity,
+    poolV4SwapLookup,
+    prices,
+    allowance,
+    authorizationLookup,
+    accountPair,
+    reversePair,
+    fromDailyBalance,
+    toDailyBalance,
+  ] = await Promise.all([
     context.Token.get(tokenId),
     context.Account.get(`${chainId}_${fromAddress}`),
     context.Account.get(`${chainId}_${toAddress}`),
-    context.DailyTokenActivity.get(
-      `${chainId}_${getDayId(BigInt(event.block.timestamp))}`
+    context.DailyTokenActivity.get(`${chainId}_${dayId}`),
+    context.AccountDayActivity.get(
+      getAccountDayActivityId(chainId, fromAddress, dayId)
+    ),
+    context.AccountDayActivity.get(
+      getAccountDayActivityId(chainId, toAddress, dayId)
     ),
+    context.PoolV4SwapLookup.get(chainId.toString()),
+    loadUsdPrices(context, chainId),
+    allowanceId ? context.Allowance.get(allowanceId) : Promise.resolve(undefined),
+    context.AuthorizationLookup.get(
+      getAuthorizationLookupId(chainId, event.transaction.hash, fromAddress)
+    ),
+    context.AccountPair.get(`${chainId}_${fromAddress}_${toAddress}`),
+    context.AccountPair.get(`${chainId}_${toAddress}_${fromAddress}`),
+    context.AccountDailyBalance.get(getAccountDailyBalanceId(chainId, fromAddress, dayId)),
+    context.AccountDailyBalance.get(getAccountDailyBalanceId(chainId, toAddress, dayId)),
   ]);
 
   // Skip the actual processing during preload phase
@@ -71,11 +150,42 @@ Ping.Transfer.handler(async ({ event, context }) => {
     poolRelatedType = POOL_RELATION_SELL; // User is selling to pool
   }
 
+  // Check if the V4 PoolManager is involved (it holds the tokens of every V4 pool)
+  // The V4 pool is matched from the swaps earlier in the same transaction, if any
+  let relatedPoolV4Id: string | undefined;
+  const poolManagerAddress = normalizeAddress(UNISWAP_V4_POOL_MANAGER);
+  const isFromPoolManager = fromAddress === poolManagerAddress;
+  const isToPoolManager = toAddress === poolManagerAddress;
+
+  if (isFromPoolManager || isToPoolManager) {
+    relatedPoolV4Id =
+      poolV4SwapLookup?.transactionHash === event.transaction.hash
+        ? getSwappedPoolV4Id(poolV4SwapLookup, event.params.value)
+        : undefined;
+    isPoolRelated = true;
+    poolRelatedType = isFromPoolManager
+      ? POOL_RELATION_BUY // User is buying from V4 pool
+      : POOL_RELATION_SELL; // User is selling to V4 pool
+  }
+
+  // Pools and the PoolManager are not holders, so they get no Account tracking
+  const isFromPoolAddress = !!fromPool || isFromPoolManager;
+  const isToPoolAddress = !!toPool || isToPoolManager;
+
+  // A self-transfer moves no tokens: it counts as the account's activity only,
+  // with a zero balance change and no balance history
+  const isSelfTransfer = fromAddress === toAddress;
+  const balanceDelta = isSelfTransfer ? ZERO_BD : transferValue;
+
+  // Holder balances that change: wallets only, and none for a self-transfer
+  const isFromHolder = fromAddress !== ADDRESS_ZERO && !isFromPoolAddress && !isSelfTransfer;
+  const isToHolder = toAddress !== ADDRESS_ZERO && !isToPoolAddress && !isSelfTransfer;
+
   // Track holder count changes based on balance transitions
   let holderCountDelta = 0;
 
-  // Check sender balance change (if not zero address or pool)
-  if (fromAddress !== ADDRESS_ZERO && !fromPool && fromAccount) {
+  // Check sender balance change (if a holder balance changes)
+  if (isFromHolder && fromAccount) {
     const oldBalance = fromAccount.balance;
     const newBalance = oldBalance.minus(transferValue);
 
@@ -85,8 +195,8 @@ Ping.Transfer.handler(async ({ event, context }) => {
     }
   }
 
-  // Check receiver balance change (if not zero address or pool)
-  if (toAddress !== ADDRESS_ZERO && !toPool) {
+  // Check receiver balance change (if a holder balance changes)
+  if (isToHolder) {
     const oldBalance = toAccount?.balance || ZERO_BD;
     const newBalance = oldBalance.plus(transferValue);
 
@@ -97,12 +207,28 @@ Ping.Transfer.handler(async ({ event, context }) => {
   }
 
   // Track if this created a new account (for daily statistics)
-  const isNewAccount = !toAccount && toAddress !== ADDRESS_ZERO && !toPool;
+  // Accounts created by swap handlers have no transfers yet and still count as new
+  const isNewAccount =
+    (!toAccount || toAccount.transferCount === ZERO_BI) &&
+    toAddress !== ADDRESS_ZERO &&
+    !isToPoolAddress;
+
+  // Mints come from the zero address and burns go to it
+  const isMint = fromAddress === ADDRESS_ZERO && toAddress !== ADDRESS_ZERO;
+  const isBurn = toAddress === ADDRESS_ZERO && fromAddress !== ADDRESS_ZERO;
+  const supplyDelta = isMint
+    ? event.params.value
+    : isBurn
+      ? -event.params.value
+      : ZERO_BI;
+  const mintedValue = isMint ? transferValue : ZERO_BD;
+  const burnedValue = isBurn ? transferValue : ZERO_BD;
 
   // Initialize or update Token entity
-  const tokenEntity: Token = token
+  const baseToken: Token = token
     ? {
         ...token,
+        totalSupply: token.totalSupply + supplyDelta,
         totalTransfers: token.totalTransfers + ONE_BI,
         totalVolume: token.totalVolume.plus(transferValue),
         holderCount: BigInt(Number(token.holderCount) + holderCountDelta),
@@ -114,85 +240,112 @@ Ping.Transfer.handler(async ({ event, context }) => {
         symbol: TOKEN_SYMBOL,
         name: TOKEN_NAME,
         decimals: TOKEN_DECIMALS,
-        totalSupply: ZERO_BI,
+        totalSupply: supplyDelta,
         totalTransfers: ONE_BI,
         totalVolume: transferValue,
         holderCount: holderCountDelta > 0 ? BigInt(holderCountDelta) : ZERO_BI,
+        ...createEmptyHolderDistribution(),
       };
 
+  // Update holder distribution from wallet balance transitions
+  const fromOldBalance = fromAccount?.balance ?? ZERO_BD;
+  const toOldBalance = toAccount?.balance ?? ZERO_BD;
+  const tokenAfterFrom = isFromHolder
+    ? applyHolderBalanceChange(
+        baseToken,
+        fromAddress,
+        fromOldBalance,
+        fromOldBalance.minus(transferValue)
+      )
+    : baseToken;
+  const tokenEntity = isToHolder
+    ? applyHolderBalanceChange(
+        tokenAfterFrom,
+        toAddress,
+        toOldBalance,
+        toOldBalance.plus(transferValue)
+      )
+    : tokenAfterFrom;
+
   const txHash = event.transaction.hash;
   const timestamp = BigInt(event.block.timestamp);
 
+  const snapshotEvent = {
+    blockNumber: BigInt(event.block.number),
+    logIndex: BigInt(event.logIndex),
+    timestamp,
+    transactionHash: txHash,
+  };
+
+  // A used EIP-3009 authorization from the sender makes this a gasless transfer
+  const isGasless = !!authorizationLookup;
+  const gaslessCount = isGasless ? ONE_BI : ZERO_BI;
+
   // Update sender account (if not zero address and not a pool)
-  if (fromAddress !== ADDRESS_ZERO && !fromPool) {
-    const updatedFromAccount: Account = fromAccount
-      ? {
-          ...fromAccount,
-          balance: fromAccount.balance.minus(transferValue),
-          totalSent: fromAccount.totalSent.plus(transferValue),
-          transferCount: fromAccount.transferCount + ONE_BI,
-          lastTransferAt: timestamp,
-          lastTransferHash: txHash,
-        }
-      : {
-          id: `${chainId}_${fromAddress}`,
-          chainId,
-          address: fromAddress,
-          balance: ZERO_BD.minus(transferValue),
-          totalSent: transferValue,
-          totalReceived: ZERO_BD,
-          transferCount: ONE_BI,
-          firstTransferAt: timestamp,
-          lastTransferAt: timestamp,
-          lastTransferHash: txHash,
-          // Buy/sell fields will be tracked by swap-handler
-          lastBuyAt: undefined,
-          lastBuyHash: undefined,
-          lastSellAt: undefined,
-          lastSellHash: undefined,
-          totalBuys: ZERO_BI,
-          totalSells: ZERO_BI,
-          totalBuyVolume: ZERO_BD,
-          totalSellVolume: ZERO_BD,
-        };
+  if (fromAddress !== ADDRESS_ZERO && !isFromPoolAddress) {
+    const currentFromAccount =
+      fromAccount ?? createAccount(chainId, fromAddress, timestamp, txHash);
+
+    const updatedFromAccount: Account = {
+      ...currentFromAccount,
+      balance: currentFromAccount.balance.minus(balanceDelta),
+      totalSent: currentFromAccount.totalSent.plus(balanceDelta),
+      transferCount: currentFromAccount.transferCount + ONE_BI,
+      lastTransferAt: timestamp,
+      lastTransferHash: txHash,
+      gaslessTransfersSent: currentFromAccount.gaslessTransfersSent + gaslessCount,
+      gaslessVolumeSent: isGasless
+        ? currentFromAccount.gaslessVolumeSent.plus(transferValue)
+        : currentFromAccount.gaslessVolumeSent,
+    };
 
     context.Account.set(updatedFromAccount);
+
+    // Record balance history
+    if (!isSelfTransfer) {
+      context.AccountBalanceSnapshot.set(
+        createBalanceSnapshot(
+          chainId, fromAddress, snapshotEvent, updatedFromAccount.balance, transferValue.negated()
+        )
+      );
+      context.AccountDailyBalance.set(
+        updateAccountDailyBalance(
+          fromDailyBalance, chainId, fromAddress, timestamp,
+          currentFromAccount.balance, updatedFromAccount.balance
+        )
+      );
+    }
   }
 
-  // Update receiver account (if not zero address and not a pool)
-  if (toAddress !== ADDRESS_ZERO && !toPool) {
-    const updatedToAccount: Account = toAccount
-      ? {
-          ...toAccount,
-          balance: toAccount.balance.plus(transferValue),
-          totalReceived: toAccount.totalReceived.plus(transferValue),
-          transferCount: toAccount.transferCount + ONE_BI,
-          lastTransferAt: timestamp,
-          lastTransferHash: txHash,
-        }
-      : {
-          id: `${chainId}_${toAddress}`,
-          chainId,
-          address: toAddress,
-          balance: transferValue,
-          totalSent: ZERO_BD,
-          totalReceived: transferValue,
-          transferCount: ONE_BI,
-          firstTransferAt: timestamp,
-          lastTransferAt: timestamp,
-          lastTransferHash: txHash,
-          // Buy/sell fields will be tracked by swap-handler
-          lastBuyAt: undefined,
-          lastBuyHash: undefined,
-          lastSellAt: undefined,
-          lastSellHash: undefined,
-          totalBuys: ZERO_BI,
-          totalSells: ZERO_BI,
-          totalBuyVolume: ZERO_BD,
-          totalSellVolume: ZERO_BD,
-        };
+  // Update receiver account (if not zero address, not a pool and not already updated as the sender)
+  if (toAddress !== ADDRESS_ZERO && !isToPoolAddress && !isSelfTransfer) {
+    const currentToAccount =
+      toAccount ?? createAccount(chainId, toAddress, timestamp, txHash);
+
+    const updatedToAccount: Account = {
+      ...currentToAccount,
+      balance: currentToAccount.balance.plus(transferValue),
+      totalReceived: currentToAccount.totalReceived.plus(transferValue),
+      transferCount: currentToAccount.transferCount + ONE_BI,
+      lastTransferAt: timestamp,
+      lastTransferHash: txHash,
+      gaslessTransfersReceived: currentToAccount.gaslessTransfersReceived + gaslessCount,
+    };
 
     context.Account.set(updatedToAccount);
+
+    // Record balance history
+    context.AccountBalanceSnapshot.set(
+      createBalanceSnapshot(
+        chainId, toAddress, snapshotEvent, updatedToAccount.balance, transferValue
+      )
+    );
+    context.AccountDailyBalance.set(
+      updateAccountDailyBalance(
+        toDailyBalance, chainId, toAddress, timestamp,
+        currentToAccount.balance, updatedToAccount.balance
+      )
+    );
   }
 
   // Create Transfer record
@@ -209,33 +362,138 @@ Ping.Transfer.handler(async ({ event, context }) => {
     isPoolRelated,
     poolRelatedType,
     relatedPool_id: relatedPool ? relatedPool.id : undefined,
-    relatedPoolV4_id: undefined, // V4 pool tracking (will be set by V4 handlers if needed)
+    relatedPoolV4_id: relatedPoolV4Id,
   };
 
+  // Mark sender and receiver as active today (if not zero address and not a pool)
+  let activeAccountsDelta = ZERO_BI;
+
+  if (fromAddress !== ADDRESS_ZERO && !isFromPoolAddress) {
+    const { marker, isFirst } = markAccountDayActivity(
+      fromDayActivity, chainId, fromAddress, dayId, "isActive"
+    );
+    context.AccountDayActivity.set(marker);
+    if (isFirst) activeAccountsDelta += ONE_BI;
+  }
+
+  // A self-transfer must not count the same address twice
+  if (toAddress !== ADDRESS_ZERO && !isToPoolAddress && toAddress !== fromAddress) {
+    const { marker, isFirst } = markAccountDayActivity(
+      toDayActivity, chainId, toAddress, dayId, "isActive"
+    );
+    context.AccountDayActivity.set(marker);
+    if (isFirst) activeAccountsDelta += ONE_BI;
+  }
+
   // Update or create DailyTokenActivity
-  const dayId = getDayId(timestamp);
-  const dayStartTimestamp = getDayStartTimestamp(timestamp);
+  const currentDailyActivity =
+    dailyActivity ?? createDailyTokenActivity(chainId, timestamp);
 
-  const updatedDailyActivity: DailyTokenActivity = dailyActivity
-    ? {
-        ...dailyActivity,
-        dailyTransfers: dailyActivity.dailyTransfers + ONE_BI,
-        dailyVolume: dailyActivity.dailyVolume.plus(transferValue),
-        dailyActiveAccounts: dailyActivity.dailyActiveAccounts,
-        newAccounts: isNewAccount
-          ? dailyActivity.newAccounts + ONE_BI
-          : dailyActivity.newAccounts,
-      }
-    : {
-        id: `${chainId}_${dayId}`,
-        chainId,
-        date: dayId,
-        timestamp: dayStartTimestamp,
-        dailyTransfers: ONE_BI,
-        dailyVolume: transferValue,
-        dailyActiveAccounts: ONE_BI,
-        newAccounts: isNewAccount ? ONE_BI : ZERO_BI,
-      };
+  const updatedDailyActivity: DailyTokenActivity = {
+    ...currentDailyActivity,
+    dailyTransfers: currentDailyActivity.dailyTransfers + ONE_BI,
+    dailyVolume: currentDailyActivity.dailyVolume.plus(transferValue),
+    dailyVolumeUSD: currentDailyActivity.dailyVolumeUSD.plus(
+      transferValue.times(prices.pingPriceUSD)
+    ),
+    priceUSD: prices.pingPriceUSD,
+    dailyMinted: currentDailyActivity.dailyMinted.plus(mintedValue),
+    dailyBurned: currentDailyActivity.dailyBurned.plus(burnedValue),
+    dailyActiveAccounts: currentDailyActivity.dailyActiveAccounts + activeAccountsDelta,
+    newAccounts: isNewAccount
+      ? currentDailyActivity.newAccounts + ONE_BI
+      : currentDailyActivity.newAccounts,
+    // Holder distribution as of the latest transfer of the day
+    holderCount: tokenEntity.holderCount,
+    holdersUnder1: tokenEntity.holdersUnder1,
+    holders1To1k: tokenEntity.holders1To1k,
+    holders1kTo100k: tokenEntity.holders1kTo100k,
+    holders100kPlus: tokenEntity.holders100kPlus,
+    hhi: tokenEntity.hhi,
+    topHoldersShare: tokenEntity.topHoldersShare,
+  };
+
+  // Record supply history for mints and burns
+  if (isMint || isBurn) {
+    const supplyChange: SupplyChange = {
+      id: `${chainId}_${event.block.number}_${event.logIndex}`,
+      chainId,
+      transactionHash: txHash,
+      timestamp,
+      blockNumber: BigInt(event.block.number),
+      logIndex: BigInt(event.logIndex),
+      changeType: isMint ? SUPPLY_CHANGE_MINT : SUPPLY_CHANGE_BURN,
+      account: isMint ? toAddress : fromAddress,
+      delta: supplyDelta,
+      newSupply: tokenEntity.totalSupply,
+    };
+
+    context.SupplyChange.set(supplyChange);
+  }
+
+  // Aggregate wallet-to-wallet flows (self-transfers, mints, burns and pools are skipped)
+  const isWalletToWallet =
+    fromAddress !== ADDRESS_ZERO &&
+    toAddress !== ADDRESS_ZERO &&
+    fromAddress !== toAddress &&
+    !isFromPoolAddress &&
+    !isToPoolAddress;
+
+  if (isWalletToWallet) {
+    const isReciprocal = !!reversePair;
+
+    const updatedPair: AccountPair = accountPair
+      ? {
+          ...accountPair,
+          transferCount: accountPair.transferCount + ONE_BI,
+          totalValue: accountPair.totalValue.plus(transferValue),
+          isReciprocal,
+          lastAt: timestamp,
+          lastTransferHash: txHash,
+        }
+      : {
+          id: `${chainId}_${fromAddress}_${toAddress}`,
+          chainId,
+          from_id: `${chainId}_${fromAddress}`,
+          to_id: `${chainId}_${toAddress}`,
+          transferCount: ONE_BI,
+          totalValue: transferValue,
+          isReciprocal,
+          firstAt: timestamp,
+          lastAt: timestamp,
+          lastTransferHash: txHash,
+        };
+
+    context.AccountPair.set(updatedPair);
+
+    // The first flow back marks the opposite direction as reciprocal too
+    if (reversePair && !reversePair.isReciprocal) {
+      context.AccountPair.set({ ...reversePair, isReciprocal: true });
+    }
+  }
+
+  // Link the authorization to this transfer and clear the pending lookup
+  if (authorizationLookup) {
+    const authorization = await context.Authorization.get(
+      authorizationLookup.authorization_id
+    );
+    if (authorization) {
+      context.Authorization.set({
+        ...authorization,
+        transfer_id: transferEntity.id,
+        value: transferValue,
+      });
+    }
+    context.AuthorizationLookup.deleteUnsafe(authorizationLookup.id);
+  }
+
+  // Reduce the spender's allowance for transferFrom-style transfers
+  // (an Approval later in the same transaction overwrites the amount)
+  if (allowance) {
+    context.Allowance.set(
+      spendAllowance(allowance, event.params.value, timestamp, txHash)
+    );
+  }
 
   // Save all entities
   context.Token.set(tokenEntity);
@@ -0,0 +1,54 @@
+import { Account } from "generated";
+import { ZERO_BI, ZERO_BD } from "./constants";
+
+/**
+ * Create an empty Account entity for an address seen for the first time
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param timestamp - Unix timestamp in seconds of the first activity
+ * @param txHash - Transaction hash of the first activity
+ * @returns Account with zero balance and no activity
+ */
+export function createAccount(
+  chainId: bigint,
+  address: string,
+  timestamp: bigint,
+  txHash: string
+): Account {
+  return {
+    id: `${chainId}_${address}`,
+    chainId,
+    address,
+    balance: ZERO_BD,
+    totalSent: ZERO_BD,
+    totalReceived: ZERO_BD,
+    transferCount: ZERO_BI,
+    firstTransferAt: timestamp,
+    lastTransferAt: timestamp,
+    lastTransferHash: txHash,
+    // Buy/sell fields will be tracked by swap handlers
+    lastBuyAt: undefined,
+    lastBuyHash: undefined,
+    lastSellAt: undefined,
+    lastSellHash: undefined,
+    totalBuys: ZERO_BI,
+    totalSells: ZERO_BI,
+    totalBuyVolume: ZERO_BD,
+    totalSellVolume: ZERO_BD,
+    positionSize: ZERO_BD,
+    costBasisUSD: ZERO_BD,
+    avgEntryPriceUSD: ZERO_BD,
+    totalBuyCostUSD: ZERO_BD,
+    totalSellProceedsUSD: ZERO_BD,
+    realizedPnlUSD: ZERO_BD,
+    unrealizedPnlUSDAtLastTrade: ZERO_BD,
+    markPriceUSDAtLastTrade: ZERO_BD,
+    timesSandwiched: ZERO_BI,
+    sandwichedValueUSD: ZERO_BD,
+    sandwichesExecuted: ZERO_BI,
+    mevExtractedUSD: ZERO_BD,
+    gaslessTransfersSent: ZERO_BI,
+    gaslessTransfersReceived: ZERO_BI,
+    gaslessVolumeSent: ZERO_BD,
+  };
+}
@@ -0,0 +1,42 @@
+import { Allowance } from "generated";
+import { MAX_UINT256, TOKEN_DECIMALS, ZERO_BI } from "./constants";
+import { convertTokenToDecimal } from "./index";
+
+/**
+ * Get the Allowance ID for an owner and spender
+ * @param chainId - Chain ID
+ * @param owner - Normalized owner address
+ * @param spender - Normalized spender address
+ * @returns ID in chainId_owner_spender format
+ */
+export function getAllowanceId(chainId: bigint, owner: string, spender: string): string {
+  return `${chainId}_${owner}_${spender}`;
+}
+
+/**
+ * Reduce an allowance by a transferFrom-style transfer
+ * Unlimited approvals are never reduced, matching the ERC-20 implementation
+ * @param allowance - Current allowance
+ * @param value - Raw transferred amount
+ * @param timestamp - Unix timestamp in seconds of the transfer
+ * @param txHash - Transaction hash of the transfer
+ * @returns The updated allowance
+ */
+export function spendAllowance(
+  allowance: Allowance,
+  value: bigint,
+  timestamp: bigint,
+  txHash: string
+): Allowance {
+  const rawAmount = allowance.rawAmount === MAX_UINT256
+    ? MAX_UINT256
+    : allowance.rawAmount > value ? allowance.rawAmount - value : ZERO_BI;
+
+  return {
+    ...allowance,
+    rawAmount,
+    amount: convertTokenToDecimal(rawAmount, TOKEN_DECIMALS),
+    lastSpentAt: timestamp,
+    lastSpentTxHash: txHash,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Arbitrage Detection
+ * Classifies transactions that trade PING across two or more V3/V4 pools with
+ * offsetting PING amounts, and moves their volume out of organic daily volume
+ *
+ * Legs of the latest transaction are collected in TransactionSwaps as swaps arrive,
+ * so a transaction is (re)evaluated on each of its legs and classified on the first
+ * leg that makes the PING amounts offset
+ */
+import { ArbitrageTrade, BigDecimal, TransactionSwaps, Trade, handlerContext } from "generated";
+import {
+  ARBITRAGE_MAX_NET_PING_RATIO,
+  EXCLUDE_ARBITRAGE_FROM_ORGANIC_VOLUME,
+  POOL_RELATION_BUY,
+  ZERO_BD,
+  ZERO_BI,
+} from "./constants";
+import { getDayId, normalizeAddress } from "./index";
+import { UsdPrices, getTokenPriceUSD } from "./pricing";
+
+/**
+ * A trade tracked in TransactionSwaps
+ */
+interface TransactionLeg {
+  tradeId: string;
+  poolIdentifier: string;
+  side: string;
+  pingAmount: BigDecimal;
+  quoteToken: string;
+  quoteAmount: BigDecimal;
+  volumeUSD: BigDecimal;
+}
+
+/**
+ * Read the legs recorded so far for a transaction
+ */
+function getTransactionLegs(state: TransactionSwaps): TransactionLeg[] {
+  return state.tradeIds.map((tradeId, i) => ({
+    tradeId,
+    poolIdentifier: state.poolIdentifiers[i],
+    side: state.sides[i],
+    pingAmount: state.pingAmounts[i],
+    quoteToken: state.quoteTokens[i],
+    quoteAmount: state.quoteAmounts[i],
+    volumeUSD: state.volumesUSD[i],
+  }));
+}
+
+/**
+ * Sum a leg amount over the legs matching a filter
+ */
+function sumLegs(
+  legs: TransactionLeg[],
+  filter: (leg: TransactionLeg) => boolean,
+  amount: (leg: TransactionLeg) => BigDecimal
+): BigDecimal {
+  return legs.filter(filter).reduce((sum, leg) => sum.plus(amount(leg)), ZERO_BD);
+}
+
+/**
+ * Record a trade as a transaction leg and classify the transaction as arbitrage
+ * once its legs span two or more pools with offsetting PING amounts
+ * @param context - Handler context
+ * @param trade - Trade created for the swap
+ * @param trader - Transaction sender (falls back to the trade's trader)
+ * @param prices - Reference prices after the swap
+ */
+export async function detectArbitrage(
+  context: handlerContext,
+  trade: Trade,
+  trader: string,
+  prices: UsdPrices
+): Promise<void> {
+  const state = await context.TransactionSwaps.get(trade.chainId.toString());
+
+  // A state left by an earlier transaction is replaced
+  const isSameTransaction = state?.transactionHash === trade.transactionHash;
+  const legs = [
+    ...(isSameTransaction ? getTransactionLegs(state) : []),
+    {
+      tradeId: trade.id,
+      poolIdentifier: trade.poolIdentifier,
+      side: trade.side,
+      pingAmount: trade.pingAmount,
+      quoteToken: trade.quoteToken,
+      quoteAmount: trade.quoteAmount,
+      volumeUSD: trade.volumeUSD,
+    },
+  ];
+  const classifiedLegCount = isSameTransaction ? state.classifiedLegCount : ZERO_BI;
+
+  const isBuy = (leg: TransactionLeg) => leg.side === POOL_RELATION_BUY;
+  const isSell = (leg: TransactionLeg) => leg.side !== POOL_RELATION_BUY;
+  const pools = [...new Set(legs.map((leg) => leg.poolIdentifier))];
+  const pingBought = sumLegs(legs, isBuy, (leg) => leg.pingAmount);
+  const pingSold = sumLegs(legs, isSell, (leg) => leg.pingAmount);
+  const netPing = pingBought.minus(pingSold);
+
+  const isArbitrage =
+    pools.length >= 2 &&
+    pingBought.gt(ZERO_BD) &&
+    pingSold.gt(ZERO_BD) &&
+    netPing.abs().lte(pingBought.times(ARBITRAGE_MAX_NET_PING_RATIO));
+
+  if (isArbitrage) {
+    const quoteTokens = [...new Set(legs.map((leg) => leg.quoteToken))];
+    const quoteToken = quoteTokens.length === 1 ? quoteTokens[0] : undefined;
+    const quoteValueUSD = (leg: TransactionLeg) =>
+      leg.quoteAmount.times(getTokenPriceUSD(leg.quoteToken, prices));
+
+    const arbitrage: ArbitrageTrade = {
+      id: `${trade.chainId}_${trade.transactionHash}`,
+      chainId: trade.chainId,
+      transactionHash: trade.transactionHash,
+      timestamp: trade.timestamp,
+      blockNumber: trade.blockNumber,
+      trader: normalizeAddress(trader),
+      legCount: BigInt(legs.length),
+      pools,
+      pingBought,
+      pingSold,
+      netPing,
+      quoteToken,
+      profitQuote: quoteToken
+        ? sumLegs(legs, isSell, (leg) => leg.quoteAmount).minus(
+            sumLegs(legs, isBuy, (leg) => leg.quoteAmount)
+          )
+        : undefined,
+      profitUSD: sumLegs(legs, isSell, quoteValueUSD).minus(sumLegs(legs, isBuy, quoteValueUSD)),
+      volumeUSD: sumLegs(legs, () => true, (leg) => leg.volumeUSD),
+    };
+    context.ArbitrageTrade.set(arbitrage);
+
+    // Link legs classified for the first time and move their volume out of organic volume
+    const dayId = getDayId(trade.timestamp);
+    for (const leg of legs.slice(Number(classifiedLegCount))) {
+      const [legTrade, dailyActivity] = await Promise.all([
+        leg.tradeId === trade.id ? trade : context.Trade.get(leg.tradeId),
+        context.DailyPoolActivity.get(`${trade.chainId}_${leg.poolIdentifier}_${dayId}`),
+      ]);
+
+      if (legTrade) {
+        context.Trade.set({ ...legTrade, arbitrage_id: arbitrage.id });
+      }
+      if (dailyActivity) {
+        context.DailyPoolActivity.set({
+          ...dailyActivity,
+          dailyArbitrageVolumeUSD: dailyActivity.dailyArbitrageVolumeUSD.plus(leg.volumeUSD),
+          dailyOrganicVolumeUSD: EXCLUDE_ARBITRAGE_FROM_ORGANIC_VOLUME
+            ? dailyActivity.dailyOrganicVolumeUSD.minus(leg.volumeUSD)
+            : dailyActivity.dailyOrganicVolumeUSD,
+        });
+      }
+    }
+
+    context.log.info(
+      `Arbitrage across ${pools.length} pools in tx ${trade.transactionHash}: ${arbitrage.profitUSD} USD`
+    );
+  }
+
+  context.TransactionSwaps.set({
+    id: trade.chainId.toString(),
+    transactionHash: trade.transactionHash,
+    classifiedLegCount: isArbitrage ? BigInt(legs.length) : classifiedLegCount,
+    tradeIds: legs.map((leg) => leg.tradeId),
+    poolIdentifiers: legs.map((leg) => leg.poolIdentifier),
+    sides: legs.map((leg) => leg.side),
+    pingAmounts: legs.map((leg) => leg.pingAmount),
+    quoteTokens: legs.map((leg) => leg.quoteToken),
+    quoteAmounts: legs.map((leg) => leg.quoteAmount),
+    volumesUSD: legs.map((leg) => leg.volumeUSD),
+  });
+}
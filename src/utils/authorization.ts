@@ -0,0 +1,14 @@
+/**
+ * Get the AuthorizationLookup ID for an authorizer in a transaction
+ * @param chainId - Chain ID
+ * @param transactionHash - Transaction hash
+ * @param authorizer - Normalized authorizer address
+ * @returns ID in chainId_transactionHash_authorizer format
+ */
+export function getAuthorizationLookupId(
+  chainId: bigint,
+  transactionHash: string,
+  authorizer: string
+): string {
+  return `${chainId}_${transactionHash}_${authorizer}`;
+}
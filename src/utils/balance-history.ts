@@ -0,0 +1,89 @@
+import { AccountBalanceSnapshot, AccountDailyBalance, BigDecimal } from "generated";
+import { ONE_BI } from "./constants";
+import { getDayId, getDayStartTimestamp } from "./index";
+
+/**
+ * Get the AccountDailyBalance ID for an account on a given day
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param dayId - Date string in YYYY-MM-DD format
+ * @returns ID in chainId_address_date format
+ */
+export function getAccountDailyBalanceId(
+  chainId: bigint,
+  address: string,
+  dayId: string
+): string {
+  return `${chainId}_${address}_${dayId}`;
+}
+
+/**
+ * Create a balance snapshot for an account after a transfer
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param event - Block, log and transaction identifiers of the transfer
+ * @param balance - Balance after the change
+ * @param delta - Signed balance change
+ */
+export function createBalanceSnapshot(
+  chainId: bigint,
+  address: string,
+  event: { blockNumber: bigint; logIndex: bigint; timestamp: bigint; transactionHash: string },
+  balance: BigDecimal,
+  delta: BigDecimal
+): AccountBalanceSnapshot {
+  return {
+    id: `${chainId}_${address}_${event.blockNumber}_${event.logIndex}`,
+    chainId,
+    account_id: `${chainId}_${address}`,
+    transactionHash: event.transactionHash,
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    balance,
+    delta,
+  };
+}
+
+/**
+ * Roll a balance change into the account's daily balance
+ * @param dailyBalance - Existing roll-up for the day (if any)
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param timestamp - Unix timestamp in seconds of the change
+ * @param oldBalance - Balance before the change
+ * @param newBalance - Balance after the change
+ * @returns The updated or new daily roll-up
+ */
+export function updateAccountDailyBalance(
+  dailyBalance: AccountDailyBalance | undefined,
+  chainId: bigint,
+  address: string,
+  timestamp: bigint,
+  oldBalance: BigDecimal,
+  newBalance: BigDecimal
+): AccountDailyBalance {
+  if (!dailyBalance) {
+    const dayId = getDayId(timestamp);
+    return {
+      id: getAccountDailyBalanceId(chainId, address, dayId),
+      chainId,
+      account_id: `${chainId}_${address}`,
+      date: dayId,
+      timestamp: getDayStartTimestamp(timestamp),
+      openBalance: oldBalance,
+      closeBalance: newBalance,
+      minBalance: newBalance.lt(oldBalance) ? newBalance : oldBalance,
+      maxBalance: newBalance.gt(oldBalance) ? newBalance : oldBalance,
+      changeCount: ONE_BI,
+    };
+  }
+
+  return {
+    ...dailyBalance,
+    closeBalance: newBalance,
+    minBalance: newBalance.lt(dailyBalance.minBalance) ? newBalance : dailyBalance.minBalance,
+    maxBalance: newBalance.gt(dailyBalance.maxBalance) ? newBalance : dailyBalance.maxBalance,
+    changeCount: dailyBalance.changeCount + ONE_BI,
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Pool Candles
+ * Maintains PoolHourData and PoolCandle OHLCV buckets from V3 and V4 swaps
+ */
+import { BigDecimal, PoolCandle, PoolHourData, handlerContext } from "generated";
+import { CANDLE_INTERVALS, ONE_BI } from "./constants";
+import { getPeriodStartTimestamp } from "./index";
+
+const HOUR_SECONDS = 3600n;
+
+/**
+ * Swap data needed to update the time-bucketed pool aggregates
+ * Shared by the V3 and V4 swap handlers
+ */
+export interface CandleSwap {
+  chainId: bigint;
+  poolIdentifier: string; // Pool address (V3) or PoolId hash (V4)
+  poolVersion: string; // "V3" or "V4"
+  timestamp: bigint;
+  priceBefore: BigDecimal; // PING price in the paired token before the swap
+  price: BigDecimal; // PING price in the paired token after the swap
+  amount0: BigDecimal; // Absolute token0 amount
+  amount1: BigDecimal; // Absolute token1 amount
+  volumeUSD: BigDecimal;
+  fees0: BigDecimal;
+  fees1: BigDecimal;
+
+  // Pool state after the swap
+  liquidity: bigint;
+  sqrtPriceX96: bigint;
+  token0Price: BigDecimal;
+  token1Price: BigDecimal;
+  tvlUSD: BigDecimal;
+}
+
+/**
+ * Fields shared by PoolHourData and PoolCandle
+ */
+type CandleFields = Pick<
+  PoolCandle,
+  | "priceOpen"
+  | "priceHigh"
+  | "priceLow"
+  | "priceClose"
+  | "swapCount"
+  | "volume0"
+  | "volume1"
+  | "volumeUSD"
+  | "fees0"
+  | "fees1"
+>;
+
+/**
+ * Apply a swap to an existing bucket, or open a new one
+ * A new bucket opens at the price before its first swap
+ */
+function applySwap(current: CandleFields | undefined, swap: CandleSwap): CandleFields {
+  if (!current) {
+    return {
+      priceOpen: swap.priceBefore,
+      priceHigh: swap.price.gt(swap.priceBefore) ? swap.price : swap.priceBefore,
+      priceLow: swap.price.lt(swap.priceBefore) ? swap.price : swap.priceBefore,
+      priceClose: swap.price,
+      swapCount: ONE_BI,
+      volume0: swap.amount0,
+      volume1: swap.amount1,
+      volumeUSD: swap.volumeUSD,
+      fees0: swap.fees0,
+      fees1: swap.fees1,
+    };
+  }
+
+  return {
+    priceOpen: current.priceOpen,
+    priceHigh: swap.price.gt(current.priceHigh) ? swap.price : current.priceHigh,
+    priceLow: swap.price.lt(current.priceLow) ? swap.price : current.priceLow,
+    priceClose: swap.price,
+    swapCount: current.swapCount + ONE_BI,
+    volume0: current.volume0.plus(swap.amount0),
+    volume1: current.volume1.plus(swap.amount1),
+    volumeUSD: current.volumeUSD.plus(swap.volumeUSD),
+    fees0: current.fees0.plus(swap.fees0),
+    fees1: current.fees1.plus(swap.fees1),
+  };
+}
+
+/**
+ * Hour and candle buckets a swap falls into, before the swap is applied
+ */
+export interface SwapCandleBuckets {
+  hourData: PoolHourData | undefined;
+  candles: (PoolCandle | undefined)[]; // One per CANDLE_INTERVALS entry
+}
+
+/**
+ * Get the PoolHourData and PoolCandle IDs for a pool at a timestamp
+ */
+function getBucketIds(chainId: bigint, poolIdentifier: string, timestamp: bigint) {
+  const poolKey = `${chainId}_${poolIdentifier}`;
+  const hourStart = getPeriodStartTimestamp(timestamp, HOUR_SECONDS);
+
+  const periods = CANDLE_INTERVALS.map(({ label, seconds }) => {
+    const periodStart = getPeriodStartTimestamp(timestamp, seconds);
+    return { label, periodStart, id: `${poolKey}_${label}_${periodStart}` };
+  });
+
+  return { hourStart, hourDataId: `${poolKey}_${hourStart}`, periods };
+}
+
+/**
+ * Load the buckets a swap falls into
+ * Called from the swap handlers' preload loads so the lookups are batched
+ */
+export async function loadSwapCandles(
+  context: handlerContext,
+  chainId: bigint,
+  poolIdentifier: string,
+  timestamp: bigint
+): Promise<SwapCandleBuckets> {
+  const { hourDataId, periods } = getBucketIds(chainId, poolIdentifier, timestamp);
+
+  const [hourData, candles] = await Promise.all([
+    context.PoolHourData.get(hourDataId),
+    Promise.all(periods.map(({ id }) => context.PoolCandle.get(id))),
+  ]);
+
+  return { hourData, candles };
+}
+
+/**
+ * Update the PoolHourData and every configured PoolCandle interval for a swap
+ * @param context - Handler context
+ * @param swap - Swap amounts, prices and post-swap pool state
+ * @param buckets - Buckets loaded with loadSwapCandles for the same pool and timestamp
+ */
+export function recordSwapCandles(
+  context: handlerContext,
+  swap: CandleSwap,
+  buckets: SwapCandleBuckets
+): void {
+  const { hourStart, hourDataId, periods } = getBucketIds(
+    swap.chainId,
+    swap.poolIdentifier,
+    swap.timestamp
+  );
+
+  const updatedHourData: PoolHourData = {
+    id: hourDataId,
+    chainId: swap.chainId,
+    poolIdentifier: swap.poolIdentifier,
+    poolVersion: swap.poolVersion,
+    periodStart: hourStart,
+    ...applySwap(buckets.hourData, swap),
+    liquidity: swap.liquidity,
+    sqrtPriceX96: swap.sqrtPriceX96,
+    token0Price: swap.token0Price,
+    token1Price: swap.token1Price,
+    tvlUSD: swap.tvlUSD,
+  };
+  context.PoolHourData.set(updatedHourData);
+
+  periods.forEach(({ label, periodStart, id }, i) => {
+    const updatedCandle: PoolCandle = {
+      id,
+      chainId: swap.chainId,
+      poolIdentifier: swap.poolIdentifier,
+      poolVersion: swap.poolVersion,
+      interval: label,
+      periodStart,
+      ...applySwap(buckets.candles[i], swap),
+    };
+    context.PoolCandle.set(updatedCandle);
+  });
+}
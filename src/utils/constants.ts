@@ -16,6 +16,7 @@ export const POOL_ADDRESS = "0xBc51DB8aEC659027AE0B0E468C0735418161A780"; // Kno
  */
 export const ZERO_BI = BigInt(0);
 export const ONE_BI = BigInt(1);
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1); // Unlimited approval amount
 
 /**
  * BigDecimal constants
@@ -30,6 +31,42 @@ export const POOL_RELATION_BUY = "BUY";   // Buying from pool (pool -> user)
 export const POOL_RELATION_SELL = "SELL"; // Selling to pool (user -> pool)
 export const POOL_RELATION_NONE = "NONE";
 
+/**
+ * Supply change types
+ */
+export const SUPPLY_CHANGE_MINT = "MINT"; // Transfer from zero address
+export const SUPPLY_CHANGE_BURN = "BURN"; // Transfer to zero address
+
+/**
+ * Holder distribution
+ * Bucket lower bounds in PING: under 1, 1-1k, 1k-100k, 100k+
+ */
+export const HOLDER_BUCKET_THRESHOLDS = [
+  new BigDecimal("1"),
+  new BigDecimal("1000"),
+  new BigDecimal("100000"),
+];
+export const TOP_HOLDER_COUNT = 10; // Holders included in Token.topHoldersShare
+export const TOP_HOLDER_BUFFER_SIZE = 50; // Largest balances kept so the top list survives sells
+
+/**
+ * Arbitrage detection
+ * Offsetting legs may differ by this share of the PING bought (rounding, fees on transfer)
+ */
+export const ARBITRAGE_MAX_NET_PING_RATIO = new BigDecimal("0.01");
+export const EXCLUDE_ARBITRAGE_FROM_ORGANIC_VOLUME = true; // Set false to keep arbitrage in dailyOrganicVolumeUSD
+
+/**
+ * MEV event types
+ */
+export const MEV_TYPE_SANDWICH = "SANDWICH";
+
+/**
+ * EIP-3009 authorization statuses
+ */
+export const AUTHORIZATION_USED = "USED";
+export const AUTHORIZATION_CANCELED = "CANCELED";
+
 /**
  * Token metadata (verified from contract on Base)
  * Token: 0xd85c31854c2B0Fb40aaA9E2Fc4Da23C21f829d46
@@ -38,13 +75,80 @@ export const TOKEN_SYMBOL = "PING";
 export const TOKEN_NAME = "Ping";
 export const TOKEN_DECIMALS = 18n;
 
+/**
+ * Well-known AccessControl role hashes (keccak256 of the role name)
+ */
+export const DEFAULT_ADMIN_ROLE =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+export const KNOWN_ROLES: Record<string, string> = {
+  [DEFAULT_ADMIN_ROLE]: "DEFAULT_ADMIN_ROLE",
+  "0x9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6": "MINTER_ROLE",
+  "0x3c11d16cbaffd01df69ce1c404f6340ee057498f5f00246190ea54220576a848": "BURNER_ROLE",
+  "0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a": "PAUSER_ROLE",
+  "0x189ab7a9244df0848122154315af71fe140f3db0fe014031783b0946b8c9d2e3": "UPGRADER_ROLE",
+  "0x97667070c54ef182b0f5858b034beac1b6f3089aa2d3188bb1e8929f4fa9b929": "OPERATOR_ROLE",
+  "0x241ecf16d79d0f8dbfb92cbc07fe17840425976cf0667f022fe9877caa831b08": "MANAGER_ROLE",
+  "0x77e60b99a50d27fb027f6912a507d956105b4148adab27a86d235c8bcca8fa2f": "LIQUIDITY_MANAGER_ROLE",
+  "0x6c0757dc3e6b28b2580c03fd9e96c274acf4f99d91fbec9b418fa1d70604ff1c": "FEE_MANAGER_ROLE",
+};
+
+/**
+ * Pricing reference tokens on Base (lowercase)
+ */
+export const WETH_ADDRESS = "0x4200000000000000000000000000000000000006";
+export const STABLECOIN_ADDRESSES: string[] = [
+  "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913", // USDC
+  "0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca", // USDbC
+  "0x50c5725949a6f0c72e6c4a641f24049a917db0cb", // DAI
+];
+
+// WETH/USDC 0.05% V3 pool (token0 = WETH, token1 = USDC) used for ETH/USD
+export const ETH_USD_REFERENCE_POOL = "0xd0b53D9277642d899DF5C87A3966A349A798F224";
+
+/**
+ * Pool fee denominator (V3 fee tiers and V4 swap fees are in hundredths of a bip)
+ */
+export const FEE_DENOMINATOR = new BigDecimal("1000000");
+export const BPS_DENOMINATOR = new BigDecimal("10000"); // Basis points in 1
+
+/**
+ * Pool candle intervals maintained by the swap handlers
+ * Add or remove entries to change which PoolCandle intervals are indexed
+ */
+export const CANDLE_INTERVALS: { label: string; seconds: bigint }[] = [
+  { label: "1m", seconds: 60n },
+  { label: "5m", seconds: 300n },
+  { label: "15m", seconds: 900n },
+  { label: "1h", seconds: 3600n },
+  { label: "4h", seconds: 14400n },
+  { label: "1d", seconds: 86400n },
+];
+
 /**
  * Uniswap V4 Addresses
  */
 export const UNISWAP_V4_POOL_MANAGER = "0x498581fF718922c3f8e6A244956aF099B2652b2b";
 
+/**
+ * Known routers and aggregators on Base (lowercase)
+ * Swaps sent through these contracts are attributed to transaction.from
+ * Add addresses here to attribute trades from other routers to the real trader
+ */
+export const KNOWN_ROUTERS: string[] = [
+  "0x6ff5693b99212da76ad316178a184ab56d299b43", // Uniswap Universal Router (V4)
+  "0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad", // Uniswap Universal Router
+  "0x111111125421ca6dc452d289314280a0f8842a65", // 1inch Aggregation Router V6
+];
+
 /**
  * ModifyLiquidity types
  */
 export const LIQUIDITY_ADD = "ADD";
 export const LIQUIDITY_REMOVE = "REMOVE";
+
+/**
+ * V3 liquidity event types
+ */
+export const LIQUIDITY_EVENT_MINT = "MINT";
+export const LIQUIDITY_EVENT_BURN = "BURN";
+export const LIQUIDITY_EVENT_COLLECT = "COLLECT";
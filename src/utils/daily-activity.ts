@@ -0,0 +1,142 @@
+import { AccountDayActivity, DailyTokenActivity, Token, handlerContext } from "generated";
+import { ZERO_BI, ZERO_BD, ONE_BI, PING_TOKEN_ADDRESS } from "./constants";
+import { getDayId, getDayStartTimestamp, normalizeAddress } from "./index";
+
+/**
+ * Account activity flags tracked per day
+ */
+export type AccountDayFlag = "isActive" | "hasBought" | "hasSold";
+
+/**
+ * Get the AccountDayActivity ID for an account on a given day
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param dayId - Date string in YYYY-MM-DD format
+ * @returns ID in chainId_address_date format
+ */
+export function getAccountDayActivityId(
+  chainId: bigint,
+  address: string,
+  dayId: string
+): string {
+  return `${chainId}_${address}_${dayId}`;
+}
+
+/**
+ * Mark an account as having done something on a given day
+ * @param marker - Existing marker for the account and day (if any)
+ * @param chainId - Chain ID
+ * @param address - Normalized account address
+ * @param dayId - Date string in YYYY-MM-DD format
+ * @param flag - The activity flag to set
+ * @returns The updated marker and whether the flag was newly set (first time today)
+ */
+export function markAccountDayActivity(
+  marker: AccountDayActivity | undefined,
+  chainId: bigint,
+  address: string,
+  dayId: string,
+  flag: AccountDayFlag
+): { marker: AccountDayActivity; isFirst: boolean } {
+  const current: AccountDayActivity = marker ?? {
+    id: getAccountDayActivityId(chainId, address, dayId),
+    chainId,
+    address,
+    date: dayId,
+    isActive: false,
+    hasBought: false,
+    hasSold: false,
+  };
+
+  return {
+    marker: { ...current, [flag]: true },
+    isFirst: !current[flag],
+  };
+}
+
+/**
+ * Create an empty DailyTokenActivity for the day containing the timestamp
+ * @param chainId - Chain ID
+ * @param timestamp - Unix timestamp in seconds
+ * @param token - Current Token state to seed the holder distribution from (if known)
+ * @returns DailyTokenActivity with all counters at zero
+ */
+export function createDailyTokenActivity(
+  chainId: bigint,
+  timestamp: bigint,
+  token?: Token
+): DailyTokenActivity {
+  const dayId = getDayId(timestamp);
+
+  return {
+    id: `${chainId}_${dayId}`,
+    chainId,
+    date: dayId,
+    timestamp: getDayStartTimestamp(timestamp),
+    dailyTransfers: ZERO_BI,
+    dailyVolume: ZERO_BD,
+    dailyVolumeUSD: ZERO_BD,
+    priceUSD: ZERO_BD,
+    dailyMinted: ZERO_BD,
+    dailyBurned: ZERO_BD,
+    dailyActiveAccounts: ZERO_BI,
+    newAccounts: ZERO_BI,
+    dailyUniqueBuyers: ZERO_BI,
+    dailyUniqueSellers: ZERO_BI,
+    holderCount: token?.holderCount ?? ZERO_BI,
+    holdersUnder1: token?.holdersUnder1 ?? ZERO_BI,
+    holders1To1k: token?.holders1To1k ?? ZERO_BI,
+    holders1kTo100k: token?.holders1kTo100k ?? ZERO_BI,
+    holders100kPlus: token?.holders100kPlus ?? ZERO_BI,
+    hhi: token?.hhi ?? ZERO_BD,
+    topHoldersShare: token?.topHoldersShare ?? ZERO_BD,
+  };
+}
+
+/**
+ * Count a trader once per day as a unique buyer or seller of PING
+ * Shared by the V3 and V4 swap handlers
+ * @param context - Handler context
+ * @param chainId - Chain ID
+ * @param trader - Normalized trader address
+ * @param timestamp - Unix timestamp in seconds
+ * @param isBuy - True for a buy from a pool, false for a sell to a pool
+ */
+export async function recordDailyTrader(
+  context: handlerContext,
+  chainId: bigint,
+  trader: string,
+  timestamp: bigint,
+  isBuy: boolean
+): Promise<void> {
+  const dayId = getDayId(timestamp);
+
+  const [dayActivity, dailyActivity, token] = await Promise.all([
+    context.AccountDayActivity.get(getAccountDayActivityId(chainId, trader, dayId)),
+    context.DailyTokenActivity.get(`${chainId}_${dayId}`),
+    context.Token.get(`${chainId}_${normalizeAddress(PING_TOKEN_ADDRESS)}`),
+  ]);
+
+  const { marker, isFirst } = markAccountDayActivity(
+    dayActivity, chainId, trader, dayId, isBuy ? "hasBought" : "hasSold"
+  );
+  context.AccountDayActivity.set(marker);
+
+  if (!isFirst) {
+    return;
+  }
+
+  // A day whose first event is a swap starts from the current holder distribution
+  const currentDailyActivity =
+    dailyActivity ?? createDailyTokenActivity(chainId, timestamp, token);
+
+  context.DailyTokenActivity.set({
+    ...currentDailyActivity,
+    dailyUniqueBuyers: isBuy
+      ? currentDailyActivity.dailyUniqueBuyers + ONE_BI
+      : currentDailyActivity.dailyUniqueBuyers,
+    dailyUniqueSellers: isBuy
+      ? currentDailyActivity.dailyUniqueSellers
+      : currentDailyActivity.dailyUniqueSellers + ONE_BI,
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * Holder Distribution
+ * Maintains holder buckets and concentration metrics on Token incrementally
+ * from each wallet balance transition seen by the transfer handler
+ *
+ * The top holder list is kept in a buffer of the largest balances seen. A holder
+ * only leaves the buffer when a larger balance pushes it out, so the top
+ * TOP_HOLDER_COUNT stays exact unless most of the buffer sells below an evicted holder
+ */
+import { BigDecimal, Token } from "generated";
+import {
+  HOLDER_BUCKET_THRESHOLDS,
+  ONE_BI,
+  TOP_HOLDER_BUFFER_SIZE,
+  TOP_HOLDER_COUNT,
+  ZERO_BD,
+  ZERO_BI,
+} from "./constants";
+import { safeDiv } from "./index";
+
+/**
+ * Holder bucket fields on Token, in HOLDER_BUCKET_THRESHOLDS order
+ */
+const BUCKET_FIELDS = [
+  "holdersUnder1",
+  "holders1To1k",
+  "holders1kTo100k",
+  "holders100kPlus",
+] as const;
+
+/**
+ * Get the holder bucket for a balance
+ * @returns Index into BUCKET_FIELDS, or -1 for a zero balance (not a holder)
+ */
+function getHolderBucket(balance: BigDecimal): number {
+  if (balance.lte(ZERO_BD)) return -1;
+  return HOLDER_BUCKET_THRESHOLDS.filter((threshold) => balance.gte(threshold)).length;
+}
+
+/**
+ * Holder distribution fields with zero holders, for a newly created Token
+ */
+export function createEmptyHolderDistribution(): Pick<
+  Token,
+  | (typeof BUCKET_FIELDS)[number]
+  | "holderBalanceSum"
+  | "holderBalanceSquaresSum"
+  | "hhi"
+  | "topHolders"
+  | "topHolderBalances"
+  | "topHoldersShare"
+> {
+  return {
+    holdersUnder1: ZERO_BI,
+    holders1To1k: ZERO_BI,
+    holders1kTo100k: ZERO_BI,
+    holders100kPlus: ZERO_BI,
+    holderBalanceSum: ZERO_BD,
+    holderBalanceSquaresSum: ZERO_BD,
+    hhi: ZERO_BD,
+    topHolders: [],
+    topHolderBalances: [],
+    topHoldersShare: ZERO_BD,
+  };
+}
+
+/**
+ * Apply a wallet balance transition to the Token's holder distribution
+ * @param token - Token entity to update
+ * @param address - Normalized holder address
+ * @param oldBalance - Balance before the transfer
+ * @param newBalance - Balance after the transfer
+ * @returns The updated Token
+ */
+export function applyHolderBalanceChange(
+  token: Token,
+  address: string,
+  oldBalance: BigDecimal,
+  newBalance: BigDecimal
+): Token {
+  // Move the holder between buckets
+  const oldBucket = getHolderBucket(oldBalance);
+  const newBucket = getHolderBucket(newBalance);
+  const bucketCounts = Object.fromEntries(
+    BUCKET_FIELDS.map((field, i) => {
+      let count = token[field];
+      if (i === oldBucket) count -= ONE_BI;
+      if (i === newBucket) count += ONE_BI;
+      return [field, count];
+    })
+  ) as Pick<Token, (typeof BUCKET_FIELDS)[number]>;
+
+  // Replace the holder's contribution to the balance sums
+  const holderBalanceSum = token.holderBalanceSum.minus(oldBalance).plus(newBalance);
+  const holderBalanceSquaresSum = token.holderBalanceSquaresSum
+    .minus(oldBalance.times(oldBalance))
+    .plus(newBalance.times(newBalance));
+
+  // Update the top holder buffer
+  const entries = token.topHolders
+    .map((holder, i) => ({ holder, balance: token.topHolderBalances[i] }))
+    .filter((entry) => entry.holder !== address);
+  const smallestTracked = entries[entries.length - 1]?.balance;
+  const isTracked = entries.length < token.topHolders.length;
+  if (
+    newBalance.gt(ZERO_BD) &&
+    (isTracked || entries.length < TOP_HOLDER_BUFFER_SIZE || newBalance.gt(smallestTracked))
+  ) {
+    entries.push({ holder: address, balance: newBalance });
+  }
+  entries.sort((a, b) => b.balance.comparedTo(a.balance));
+  const topEntries = entries.slice(0, TOP_HOLDER_BUFFER_SIZE);
+
+  const topBalanceSum = topEntries
+    .slice(0, TOP_HOLDER_COUNT)
+    .reduce((sum, entry) => sum.plus(entry.balance), ZERO_BD);
+
+  return {
+    ...token,
+    ...bucketCounts,
+    holderBalanceSum,
+    holderBalanceSquaresSum,
+    hhi: safeDiv(holderBalanceSquaresSum, holderBalanceSum.times(holderBalanceSum)),
+    topHolders: topEntries.map((entry) => entry.holder),
+    topHolderBalances: topEntries.map((entry) => entry.balance),
+    topHoldersShare: safeDiv(topBalanceSum, holderBalanceSum),
+  };
+}
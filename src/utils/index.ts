@@ -1,5 +1,5 @@
 import { BigDecimal } from "generated";
-import { ZERO_BD, ZERO_BI } from "./constants";
+import { FEE_DENOMINATOR, ZERO_BD, ZERO_BI } from "./constants";
 
 /**
  * Convert token amount to decimal based on token decimals
@@ -72,6 +72,26 @@ export function getDayStartTimestamp(timestamp: bigint): bigint {
   return BigInt(Math.floor(date.getTime() / 1000));
 }
 
+/**
+ * Get the start timestamp of the fixed-length period containing a timestamp
+ * @param timestamp - Unix timestamp in seconds
+ * @param periodSeconds - Period length in seconds
+ * @returns Timestamp of the start of the period (UTC aligned)
+ */
+export function getPeriodStartTimestamp(timestamp: bigint, periodSeconds: bigint): bigint {
+  return timestamp - (timestamp % periodSeconds);
+}
+
+/**
+ * Get the fee charged on a swap input amount
+ * @param amountIn - Input amount of the swap (fee included)
+ * @param fee - Pool fee in hundredths of a bip
+ * @returns Fee amount in the input token
+ */
+export function getFeeAmount(amountIn: BigDecimal, fee: bigint): BigDecimal {
+  return amountIn.times(fee.toString()).div(FEE_DENOMINATOR);
+}
+
 /**
  * Convert hex string to BigInt
  * @param hex - Hex string (with or without 0x prefix)
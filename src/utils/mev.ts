@@ -0,0 +1,164 @@
+/**
+ * MEV Detection
+ * Flags sandwich attacks around PING swaps from the swaps seen in the same pool and block
+ *
+ * A sandwich is a front-run and a back-run in opposite directions by the same
+ * transaction.from, with at least one other trader's swap in the front-run's
+ * direction between them (by logIndex), where the attacker's round trip is profitable
+ */
+import { BigDecimal, MevEvent, PoolBlockSwaps, Trade, handlerContext } from "generated";
+import { MEV_TYPE_SANDWICH, ONE_BI, POOL_RELATION_BUY, ZERO_BD } from "./constants";
+import { normalizeAddress } from "./index";
+import { createAccount } from "./account";
+import { UsdPrices, getTokenPriceUSD } from "./pricing";
+
+/**
+ * A swap tracked in PoolBlockSwaps
+ */
+interface BlockSwap {
+  tradeId: string;
+  logIndex: bigint;
+  trader: string;
+  side: string;
+  pingAmount: BigDecimal;
+  price: BigDecimal;
+}
+
+/**
+ * Read the swaps of the current block, ignoring swaps from earlier blocks
+ */
+function getBlockSwaps(state: PoolBlockSwaps | undefined, blockNumber: bigint): BlockSwap[] {
+  if (!state || state.blockNumber !== blockNumber) {
+    return [];
+  }
+
+  return state.tradeIds.map((tradeId, i) => ({
+    tradeId,
+    logIndex: state.logIndexes[i],
+    trader: state.traders[i],
+    side: state.sides[i],
+    pingAmount: state.pingAmounts[i],
+    price: state.prices[i],
+  }));
+}
+
+/**
+ * Record a swap and check whether it back-runs a sandwich in the same pool and block
+ * @param context - Handler context
+ * @param trade - Trade created for the swap
+ * @param txFrom - Transaction sender of the swap
+ * @param prices - Reference prices after the swap
+ */
+export async function detectSandwich(
+  context: handlerContext,
+  trade: Trade,
+  txFrom: string,
+  prices: UsdPrices
+): Promise<void> {
+  const stateId = `${trade.chainId}_${trade.poolIdentifier}`;
+  const state = await context.PoolBlockSwaps.get(stateId);
+
+  const attacker = normalizeAddress(txFrom);
+  const swaps = getBlockSwaps(state, trade.blockNumber);
+
+  // Latest earlier swap by the same sender in the opposite direction
+  let frontIndex = -1;
+  swaps.forEach((swap, i) => {
+    if (swap.trader === attacker && swap.side !== trade.side) frontIndex = i;
+  });
+  const front = frontIndex >= 0 ? swaps[frontIndex] : undefined;
+  const victims = front
+    ? swaps
+        .slice(frontIndex + 1)
+        .filter((swap) => swap.trader !== attacker && swap.side === front.side)
+    : [];
+
+  // Attacker profit on the PING amount both legs have in common
+  let extractedQuote = ZERO_BD;
+  if (front && victims.length > 0) {
+    const matchedAmount = front.pingAmount.lt(trade.pingAmount)
+      ? front.pingAmount
+      : trade.pingAmount;
+    const isFrontBuy = front.side === POOL_RELATION_BUY;
+    const buyPrice = isFrontBuy ? front.price : trade.price;
+    const sellPrice = isFrontBuy ? trade.price : front.price;
+    extractedQuote = matchedAmount.times(sellPrice.minus(buyPrice));
+  }
+
+  const isSandwich = victims.length > 0 && extractedQuote.gt(ZERO_BD);
+
+  if (front && isSandwich) {
+    const quotePriceUSD = getTokenPriceUSD(trade.quoteToken, prices);
+    const totalVictimAmount = victims.reduce((sum, victim) => sum.plus(victim.pingAmount), ZERO_BD);
+
+    for (const victim of victims) {
+      const victimQuote = extractedQuote.times(victim.pingAmount).div(totalVictimAmount);
+      const victimValueUSD = victimQuote.times(quotePriceUSD);
+
+      const mevEvent: MevEvent = {
+        id: `${trade.id}_${victim.logIndex}`,
+        chainId: trade.chainId,
+        transactionHash: trade.transactionHash,
+        timestamp: trade.timestamp,
+        blockNumber: trade.blockNumber,
+        poolIdentifier: trade.poolIdentifier,
+        poolVersion: trade.poolVersion,
+        mevType: MEV_TYPE_SANDWICH,
+        attacker,
+        victim: victim.trader,
+        frontRunTrade_id: front.tradeId,
+        victimTrade_id: victim.tradeId,
+        backRunTrade_id: trade.id,
+        side: front.side,
+        quoteToken: trade.quoteToken,
+        extractedQuote: victimQuote,
+        extractedValueUSD: victimValueUSD,
+      };
+      context.MevEvent.set(mevEvent);
+
+      const victimAccount =
+        (await context.Account.get(`${trade.chainId}_${victim.trader}`)) ??
+        createAccount(trade.chainId, victim.trader, trade.timestamp, trade.transactionHash);
+      context.Account.set({
+        ...victimAccount,
+        timesSandwiched: victimAccount.timesSandwiched + ONE_BI,
+        sandwichedValueUSD: victimAccount.sandwichedValueUSD.plus(victimValueUSD),
+      });
+    }
+
+    const attackerAccount =
+      (await context.Account.get(`${trade.chainId}_${attacker}`)) ??
+      createAccount(trade.chainId, attacker, trade.timestamp, trade.transactionHash);
+    context.Account.set({
+      ...attackerAccount,
+      sandwichesExecuted: attackerAccount.sandwichesExecuted + ONE_BI,
+      mevExtractedUSD: attackerAccount.mevExtractedUSD.plus(extractedQuote.times(quotePriceUSD)),
+    });
+
+    context.log.info(
+      `Sandwich by ${attacker} in pool ${trade.poolIdentifier} at block ${trade.blockNumber} around ${victims.length} swap(s)`
+    );
+  }
+
+  // The front-run of a detected sandwich cannot be reused by a later back-run
+  const remaining = swaps.filter((_, i) => !(isSandwich && i === frontIndex));
+  remaining.push({
+    tradeId: trade.id,
+    logIndex: trade.logIndex,
+    trader: attacker,
+    side: trade.side,
+    pingAmount: trade.pingAmount,
+    price: trade.price,
+  });
+
+  context.PoolBlockSwaps.set({
+    id: stateId,
+    blockNumber: trade.blockNumber,
+    tradeIds: remaining.map((swap) => swap.tradeId),
+    logIndexes: remaining.map((swap) => swap.logIndex),
+    traders: remaining.map((swap) => swap.trader),
+    sides: remaining.map((swap) => swap.side),
+    pingAmounts: remaining.map((swap) => swap.pingAmount),
+    prices: remaining.map((swap) => swap.price),
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * LP Positions
+ * Maintains concentrated-liquidity Position entities from V3 Mint/Burn/Collect
+ * and V4 ModifyLiquidity events, and their in-range status as the pool tick moves
+ */
+import { BigDecimal, Position, handlerContext } from "generated";
+import { ZERO_BD, ZERO_BI } from "./constants";
+
+/**
+ * Check if a position range contains the pool tick
+ */
+export function isTickInRange(tickLower: bigint, tickUpper: bigint, tick: bigint): boolean {
+  return tickLower <= tick && tick < tickUpper;
+}
+
+/**
+ * Get the Position id for a V3 position (owner/tickLower/tickUpper)
+ */
+export function getV3PositionId(
+  chainId: bigint,
+  poolAddress: string,
+  owner: string,
+  tickLower: bigint,
+  tickUpper: bigint
+): string {
+  return `${chainId}_${poolAddress}_${owner}_${tickLower}_${tickUpper}`;
+}
+
+/**
+ * Get the Position id for a V4 position (owner/tickLower/tickUpper/salt)
+ */
+export function getV4PositionId(
+  chainId: bigint,
+  poolId: string,
+  owner: string,
+  tickLower: bigint,
+  tickUpper: bigint,
+  salt: string
+): string {
+  return `${chainId}_${poolId}_${owner}_${tickLower}_${tickUpper}_${salt}`;
+}
+
+/**
+ * Create an empty Position before its first liquidity change
+ */
+export function createPosition(
+  id: string,
+  chainId: bigint,
+  poolIdentifier: string,
+  poolVersion: string,
+  owner: string,
+  tickLower: bigint,
+  tickUpper: bigint,
+  salt: string | undefined,
+  timestamp: bigint,
+  txHash: string
+): Position {
+  return {
+    id,
+    chainId,
+    poolIdentifier,
+    poolVersion,
+    owner,
+    tickLower,
+    tickUpper,
+    salt,
+    liquidity: ZERO_BI,
+    inRange: false,
+    isOpen: false,
+    openPoolId: undefined,
+    depositedToken0: ZERO_BD,
+    depositedToken1: ZERO_BD,
+    withdrawnToken0: ZERO_BD,
+    withdrawnToken1: ZERO_BD,
+    collectedToken0: ZERO_BD,
+    collectedToken1: ZERO_BD,
+    openedAt: timestamp,
+    closedAt: undefined,
+    lastUpdatedAt: timestamp,
+    lastTransactionHash: txHash,
+  };
+}
+
+/**
+ * Apply a liquidity change to a position
+ * @param position - Position before the change
+ * @param poolEntityId - Pool entity id (chainId_poolIdentifier)
+ * @param liquidityDelta - Signed liquidity change
+ * @param amount0 - Absolute token0 amount deposited or withdrawn
+ * @param amount1 - Absolute token1 amount deposited or withdrawn
+ * @param tick - Current pool tick
+ * @returns The updated Position
+ */
+export function applyPositionLiquidity(
+  position: Position,
+  poolEntityId: string,
+  liquidityDelta: bigint,
+  amount0: BigDecimal,
+  amount1: BigDecimal,
+  tick: bigint,
+  timestamp: bigint,
+  txHash: string
+): Position {
+  const isDeposit = liquidityDelta > ZERO_BI;
+  const isWithdrawal = liquidityDelta < ZERO_BI;
+  const liquidity = position.liquidity + liquidityDelta;
+  const isOpen = liquidity > ZERO_BI;
+
+  return {
+    ...position,
+    liquidity,
+    inRange: isTickInRange(position.tickLower, position.tickUpper, tick),
+    isOpen,
+    openPoolId: isOpen ? poolEntityId : undefined,
+    depositedToken0: isDeposit ? position.depositedToken0.plus(amount0) : position.depositedToken0,
+    depositedToken1: isDeposit ? position.depositedToken1.plus(amount1) : position.depositedToken1,
+    withdrawnToken0: isWithdrawal ? position.withdrawnToken0.plus(amount0) : position.withdrawnToken0,
+    withdrawnToken1: isWithdrawal ? position.withdrawnToken1.plus(amount1) : position.withdrawnToken1,
+    openedAt: !position.isOpen && isOpen ? timestamp : position.openedAt,
+    closedAt: isOpen ? undefined : position.isOpen ? timestamp : position.closedAt,
+    lastUpdatedAt: timestamp,
+    lastTransactionHash: txHash,
+  };
+}
+
+/**
+ * Load the open positions of a pool
+ * Called from the swap handlers' preload loads so the query is batched
+ * @param context - Handler context
+ * @param poolEntityId - Pool entity id (chainId_poolIdentifier)
+ */
+export function loadOpenPositions(
+  context: handlerContext,
+  poolEntityId: string
+): Promise<Position[]> {
+  return context.Position.getWhere.openPoolId.eq(poolEntityId);
+}
+
+/**
+ * Refresh inRange on the open positions of a pool after its tick moved
+ * Only positions whose status flips are written
+ * @param context - Handler context
+ * @param openPositions - Open positions loaded with loadOpenPositions
+ * @param tick - Pool tick after the swap
+ */
+export function refreshPositionsInRange(
+  context: handlerContext,
+  openPositions: Position[],
+  tick: bigint
+): void {
+  for (const position of openPositions) {
+    const inRange = isTickInRange(position.tickLower, position.tickUpper, tick);
+    if (inRange !== position.inRange) {
+      context.Position.set({ ...position, inRange });
+    }
+  }
+}
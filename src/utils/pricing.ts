@@ -0,0 +1,279 @@
+/**
+ * USD Pricing
+ * Derives PING/USD from the deepest PING pool paired with a stablecoin or WETH,
+ * using ETH/USD from the WETH/USDC reference pool for WETH pairs
+ */
+import { BigDecimal, Bundle, TokenPrice, handlerContext } from "generated";
+import {
+  ADDRESS_ZERO,
+  BPS_DENOMINATOR,
+  ONE_BD,
+  PING_TOKEN_ADDRESS,
+  STABLECOIN_ADDRESSES,
+  WETH_ADDRESS,
+  ZERO_BD,
+} from "./constants";
+import { exponentToBigDecimal, normalizeAddress, safeDiv } from "./index";
+
+const Q192 = BigInt(2) ** BigInt(192);
+
+/**
+ * Current reference prices used to value amounts in USD
+ */
+export interface UsdPrices {
+  ethPriceUSD: BigDecimal;
+  pingPriceUSD: BigDecimal;
+}
+
+/**
+ * Pool fields needed for pricing (shared shape for V3 Pool and V4 PoolV4)
+ */
+export interface PricedPool {
+  identifier: string; // Pool address (V3) or PoolId hash (V4)
+  version: string; // "V3" or "V4"
+  token0: string;
+  token1: string;
+  decimals0: bigint;
+  decimals1: bigint;
+  sqrtPriceX96: bigint;
+  tvl0: BigDecimal;
+  tvl1: BigDecimal;
+}
+
+/**
+ * Convert a pool's sqrtPriceX96 into decimal-adjusted token prices
+ * @param sqrtPriceX96 - Pool sqrt price (Q64.96)
+ * @param decimals0 - Token0 decimals
+ * @param decimals1 - Token1 decimals
+ * @returns price0 (token0 priced in token1) and price1 (token1 priced in token0)
+ */
+export function sqrtPriceX96ToTokenPrices(
+  sqrtPriceX96: bigint,
+  decimals0: bigint,
+  decimals1: bigint
+): { price0: BigDecimal; price1: BigDecimal } {
+  // Divide once at the end to keep precision for very small prices
+  const price0 = new BigDecimal((sqrtPriceX96 * sqrtPriceX96).toString())
+    .times(exponentToBigDecimal(decimals0))
+    .div(exponentToBigDecimal(decimals1).times(Q192.toString()));
+
+  return {
+    price0,
+    price1: safeDiv(ONE_BD, price0),
+  };
+}
+
+/**
+ * Pick the PING price (in the paired token) out of a PING pool's token prices
+ * @param token0 - Pool token0 address
+ * @param price0 - Token0 priced in token1
+ * @param price1 - Token1 priced in token0
+ */
+export function getPingPriceInPair(
+  token0: string,
+  price0: BigDecimal,
+  price1: BigDecimal
+): BigDecimal {
+  return isPing(token0) ? price0 : price1;
+}
+
+/**
+ * Get the average price a swap executed at, as PING priced in the paired token
+ * @param token0 - Pool token0 address
+ * @param amount0 - Absolute token0 amount
+ * @param amount1 - Absolute token1 amount
+ */
+export function getExecutionPrice(
+  token0: string,
+  amount0: BigDecimal,
+  amount1: BigDecimal
+): BigDecimal {
+  return isPing(token0) ? safeDiv(amount1, amount0) : safeDiv(amount0, amount1);
+}
+
+/**
+ * Get the price impact of a swap in basis points
+ * @param executionPrice - Average execution price
+ * @param midPrice - Pool price before the swap
+ * @returns Absolute deviation of the execution price from the mid price, in bps
+ */
+export function getPriceImpactBps(executionPrice: BigDecimal, midPrice: BigDecimal): BigDecimal {
+  return safeDiv(executionPrice.minus(midPrice).abs(), midPrice).times(BPS_DENOMINATOR);
+}
+
+/**
+ * Check if a token is one of the known USD stablecoins
+ */
+export function isStablecoin(token: string): boolean {
+  return STABLECOIN_ADDRESSES.includes(normalizeAddress(token));
+}
+
+/**
+ * Check if a token is WETH or native ETH (V4 uses the zero address for ETH)
+ */
+export function isEth(token: string): boolean {
+  const address = normalizeAddress(token);
+  return address === WETH_ADDRESS || address === ADDRESS_ZERO;
+}
+
+/**
+ * Check if a token is the PING token
+ */
+export function isPing(token: string): boolean {
+  return normalizeAddress(token) === normalizeAddress(PING_TOKEN_ADDRESS);
+}
+
+/**
+ * Get the USD price of a token from the current reference prices
+ * @returns USD price, or zero if the token cannot be priced
+ */
+export function getTokenPriceUSD(token: string, prices: UsdPrices): BigDecimal {
+  if (isStablecoin(token)) return ONE_BD;
+  if (isEth(token)) return prices.ethPriceUSD;
+  if (isPing(token)) return prices.pingPriceUSD;
+  return ZERO_BD;
+}
+
+/**
+ * Value a swap in USD, preferring the quote (non-PING) side when it can be priced
+ * @param amount0 - Absolute token0 amount
+ * @param amount1 - Absolute token1 amount
+ */
+export function getSwapAmountUSD(
+  token0: string,
+  token1: string,
+  amount0: BigDecimal,
+  amount1: BigDecimal,
+  prices: UsdPrices
+): BigDecimal {
+  const value0 = amount0.times(getTokenPriceUSD(token0, prices));
+  const value1 = amount1.times(getTokenPriceUSD(token1, prices));
+
+  if (!isPing(token0) && value0.gt(ZERO_BD)) return value0;
+  if (!isPing(token1) && value1.gt(ZERO_BD)) return value1;
+  return value0.gt(ZERO_BD) ? value0 : value1;
+}
+
+/**
+ * Value a pool's TVL in USD
+ */
+export function getTvlUSD(
+  token0: string,
+  token1: string,
+  tvl0: BigDecimal,
+  tvl1: BigDecimal,
+  prices: UsdPrices
+): BigDecimal {
+  return tvl0
+    .times(getTokenPriceUSD(token0, prices))
+    .plus(tvl1.times(getTokenPriceUSD(token1, prices)));
+}
+
+/**
+ * Load the current reference prices for a chain
+ */
+export async function loadUsdPrices(
+  context: handlerContext,
+  chainId: bigint
+): Promise<UsdPrices> {
+  const [bundle, pingPrice] = await Promise.all([
+    context.Bundle.get(chainId.toString()),
+    context.TokenPrice.get(`${chainId}_${normalizeAddress(PING_TOKEN_ADDRESS)}`),
+  ]);
+
+  return {
+    ethPriceUSD: bundle?.ethPriceUSD ?? ZERO_BD,
+    pingPriceUSD: pingPrice?.priceUSD ?? ZERO_BD,
+  };
+}
+
+/**
+ * Update ETH/USD from the WETH/USDC reference pool
+ * @param sqrtPriceX96 - Reference pool sqrt price (token0 = WETH, token1 = USDC)
+ */
+export function updateEthPrice(
+  context: handlerContext,
+  chainId: bigint,
+  sqrtPriceX96: bigint,
+  timestamp: bigint
+): void {
+  const { price0 } = sqrtPriceX96ToTokenPrices(sqrtPriceX96, 18n, 6n);
+
+  const bundle: Bundle = {
+    id: chainId.toString(),
+    ethPriceUSD: price0,
+    updatedAt: timestamp,
+  };
+
+  context.Bundle.set(bundle);
+}
+
+/**
+ * Update PING/USD from a PING pool after its price changed
+ * The pool becomes the price source if it already is one, or if its quote-side
+ * TVL in USD is at least as deep as the current source
+ * @returns The reference prices after the update
+ */
+export async function updatePingPrice(
+  context: handlerContext,
+  chainId: bigint,
+  pool: PricedPool,
+  timestamp: bigint,
+  blockNumber: bigint
+): Promise<UsdPrices> {
+  const tokenPriceId = `${chainId}_${normalizeAddress(PING_TOKEN_ADDRESS)}`;
+  const [bundle, pingPrice] = await Promise.all([
+    context.Bundle.get(chainId.toString()),
+    context.TokenPrice.get(tokenPriceId),
+  ]);
+
+  const prices: UsdPrices = {
+    ethPriceUSD: bundle?.ethPriceUSD ?? ZERO_BD,
+    pingPriceUSD: pingPrice?.priceUSD ?? ZERO_BD,
+  };
+
+  // Only PING pools paired with a priceable quote token can set the price
+  const isPingToken0 = isPing(pool.token0);
+  if (!isPingToken0 && !isPing(pool.token1)) {
+    return prices;
+  }
+
+  const quoteToken = isPingToken0 ? pool.token1 : pool.token0;
+  const quotePriceUSD = getTokenPriceUSD(quoteToken, prices);
+  if (quotePriceUSD.eq(ZERO_BD)) {
+    return prices;
+  }
+
+  const { price0, price1 } = sqrtPriceX96ToTokenPrices(
+    pool.sqrtPriceX96,
+    pool.decimals0,
+    pool.decimals1
+  );
+  const pingPriceInQuote = getPingPriceInPair(pool.token0, price0, price1);
+  const depthUSD = (isPingToken0 ? pool.tvl1 : pool.tvl0).times(quotePriceUSD);
+
+  const isCurrentSource =
+    pingPrice !== undefined &&
+    pingPrice.sourcePoolIdentifier === pool.identifier &&
+    pingPrice.sourcePoolVersion === pool.version;
+
+  if (pingPrice && !isCurrentSource && depthUSD.lt(pingPrice.sourceDepthUSD)) {
+    return prices;
+  }
+
+  const updatedPingPrice: TokenPrice = {
+    id: tokenPriceId,
+    chainId,
+    token: normalizeAddress(PING_TOKEN_ADDRESS),
+    priceUSD: pingPriceInQuote.times(quotePriceUSD),
+    sourcePoolIdentifier: pool.identifier,
+    sourcePoolVersion: pool.version,
+    sourceDepthUSD: depthUSD,
+    updatedAt: timestamp,
+    updatedAtBlock: blockNumber,
+  };
+
+  context.TokenPrice.set(updatedPingPrice);
+
+  return { ...prices, pingPriceUSD: updatedPingPrice.priceUSD };
+}
@@ -0,0 +1,104 @@
+/**
+ * Tick Liquidity
+ * Maintains the initialized Tick entities of V3 and V4 pools from liquidity changes
+ */
+import { Tick, handlerContext } from "generated";
+import { ZERO_BI } from "./constants";
+import { sqrtPriceX96ToTokenPrices } from "./pricing";
+import { getSqrtRatioAtTick } from "./v4-tick-math";
+
+/**
+ * Liquidity change on a position range
+ * Shared by the V3 Mint/Burn and V4 ModifyLiquidity handlers
+ */
+export interface TickLiquidityChange {
+  chainId: bigint;
+  poolIdentifier: string; // Pool address (V3) or PoolId hash (V4)
+  poolVersion: string; // "V3" or "V4"
+  decimals0: bigint;
+  decimals1: bigint;
+  tickLower: bigint;
+  tickUpper: bigint;
+  liquidityDelta: bigint; // Signed: positive = added, negative = removed
+  timestamp: bigint;
+}
+
+/**
+ * Create an uninitialized Tick, priced from its sqrt ratio
+ */
+function createTick(change: TickLiquidityChange, tickIdx: bigint): Tick {
+  const { price0, price1 } = sqrtPriceX96ToTokenPrices(
+    getSqrtRatioAtTick(Number(tickIdx)),
+    change.decimals0,
+    change.decimals1
+  );
+
+  return {
+    id: `${change.chainId}_${change.poolIdentifier}_${tickIdx}`,
+    chainId: change.chainId,
+    poolIdentifier: change.poolIdentifier,
+    poolVersion: change.poolVersion,
+    tickIdx,
+    liquidityGross: ZERO_BI,
+    liquidityNet: ZERO_BI,
+    price0,
+    price1,
+    createdAt: change.timestamp,
+    updatedAt: change.timestamp,
+  };
+}
+
+/**
+ * Apply a liquidity delta to one bound of a range
+ * @param isLower - True for the lower tick, which adds liquidity when crossed upwards
+ */
+function applyTickDelta(
+  current: Tick | undefined,
+  change: TickLiquidityChange,
+  tickIdx: bigint,
+  isLower: boolean
+): Tick {
+  const tick = current ?? createTick(change, tickIdx);
+
+  return {
+    ...tick,
+    liquidityGross: tick.liquidityGross + change.liquidityDelta,
+    liquidityNet: isLower
+      ? tick.liquidityNet + change.liquidityDelta
+      : tick.liquidityNet - change.liquidityDelta,
+    updatedAt: change.timestamp,
+  };
+}
+
+/**
+ * Update the lower and upper Tick of a range after a liquidity change
+ * Ticks left without liquidity are uninitialized, so they are deleted
+ * @param context - Handler context
+ * @param change - Range and signed liquidity delta
+ */
+export async function updateTicks(
+  context: handlerContext,
+  change: TickLiquidityChange
+): Promise<void> {
+  // A zero delta only pokes the position, no tick changes
+  if (change.liquidityDelta === ZERO_BI) {
+    return;
+  }
+
+  const tickKey = `${change.chainId}_${change.poolIdentifier}`;
+  const [lowerTick, upperTick] = await Promise.all([
+    context.Tick.get(`${tickKey}_${change.tickLower}`),
+    context.Tick.get(`${tickKey}_${change.tickUpper}`),
+  ]);
+
+  for (const tick of [
+    applyTickDelta(lowerTick, change, change.tickLower, true),
+    applyTickDelta(upperTick, change, change.tickUpper, false),
+  ]) {
+    if (tick.liquidityGross > ZERO_BI) {
+      context.Tick.set(tick);
+    } else {
+      context.Tick.deleteUnsafe(tick.id);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Trades
+ * Normalizes V3 and V4 swaps in PING pools into unified Trade records
+ */
+import { BigDecimal, Trade } from "generated";
+import { POOL_RELATION_BUY, POOL_RELATION_SELL, ZERO_BD } from "./constants";
+import { normalizeAddress, safeDiv } from "./index";
+import { isPing } from "./pricing";
+
+/**
+ * Swap data needed to build a Trade
+ * Shared by the V3 and V4 swap handlers
+ */
+export interface TradeSwap {
+  chainId: bigint;
+  transactionHash: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  logIndex: bigint;
+  poolIdentifier: string; // Pool address (V3) or PoolId hash (V4)
+  poolVersion: string; // "V3" or "V4"
+  token0: string;
+  token1: string;
+  traderAmount0: BigDecimal; // Signed token0 delta of the trader (positive = received)
+  traderAmount1: BigDecimal; // Signed token1 delta of the trader (positive = received)
+  volumeUSD: BigDecimal;
+  buyer: string; // Address credited when PING leaves the pool
+  seller: string; // Address debited when PING enters the pool
+}
+
+/**
+ * Build the Trade for a swap
+ * @returns The Trade, or undefined if the pool has no PING side or no PING moved
+ */
+export function createTrade(swap: TradeSwap): Trade | undefined {
+  const isPingToken0 = isPing(swap.token0);
+  if (!isPingToken0 && !isPing(swap.token1)) {
+    return undefined;
+  }
+
+  const pingDelta = isPingToken0 ? swap.traderAmount0 : swap.traderAmount1;
+  const quoteDelta = isPingToken0 ? swap.traderAmount1 : swap.traderAmount0;
+  if (pingDelta.eq(ZERO_BD)) {
+    return undefined;
+  }
+
+  const isBuy = pingDelta.gt(ZERO_BD);
+  const pingAmount = pingDelta.abs();
+  const quoteAmount = quoteDelta.abs();
+
+  return {
+    id: `${swap.chainId}_${swap.blockNumber}_${swap.logIndex}`,
+    chainId: swap.chainId,
+    transactionHash: swap.transactionHash,
+    timestamp: swap.timestamp,
+    blockNumber: swap.blockNumber,
+    logIndex: swap.logIndex,
+    poolIdentifier: swap.poolIdentifier,
+    poolVersion: swap.poolVersion,
+    side: isBuy ? POOL_RELATION_BUY : POOL_RELATION_SELL,
+    trader: normalizeAddress(isBuy ? swap.buyer : swap.seller),
+    pingAmount,
+    quoteToken: normalizeAddress(isPingToken0 ? swap.token1 : swap.token0),
+    quoteAmount,
+    price: safeDiv(quoteAmount, pingAmount),
+    volumeUSD: swap.volumeUSD,
+    arbitrage_id: undefined, // Linked once the transaction is classified as arbitrage
+  };
+}
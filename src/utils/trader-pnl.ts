@@ -0,0 +1,103 @@
+/**
+ * Trader PnL
+ * Maintains average-cost basis, realized PnL and unrealized PnL as of the latest trade
+ * on Account from pool trades
+ * Shared by the V3 and V4 swap handlers
+ */
+import { Account, AccountTrade, BigDecimal } from "generated";
+import { POOL_RELATION_BUY, POOL_RELATION_SELL, ZERO_BD } from "./constants";
+import { safeDiv } from "./index";
+import { UsdPrices, getTokenPriceUSD } from "./pricing";
+
+/**
+ * A buy or sell of PING against a pool, as seen by a swap handler
+ */
+export interface PoolTrade {
+  chainId: bigint;
+  transactionHash: string;
+  timestamp: bigint;
+  blockNumber: bigint;
+  logIndex: bigint;
+  poolIdentifier: string; // Pool address (V3) or PoolId hash (V4)
+  poolVersion: string; // "V3" or "V4"
+  isBuy: boolean;
+  pingAmount: BigDecimal; // Absolute PING amount
+  quoteToken: string; // Paired token address
+  quoteAmount: BigDecimal; // Absolute paired token amount
+}
+
+/**
+ * Apply a pool trade to an account's cost basis and PnL
+ * Sells realize PnL only on the part covered by PING bought from pools
+ * @param account - Account before the trade
+ * @param trade - Trade amounts and location
+ * @param prices - Reference prices after the swap
+ * @returns The updated Account and the AccountTrade record
+ */
+export function applyPoolTrade(
+  account: Account,
+  trade: PoolTrade,
+  prices: UsdPrices
+): { account: Account; accountTrade: AccountTrade } {
+  const quoteAmountUSD = trade.quoteAmount.times(getTokenPriceUSD(trade.quoteToken, prices));
+
+  let positionSize: BigDecimal;
+  let costBasisUSD: BigDecimal;
+  let realizedPnlUSD = ZERO_BD;
+
+  if (trade.isBuy) {
+    positionSize = account.positionSize.plus(trade.pingAmount);
+    costBasisUSD = account.costBasisUSD.plus(quoteAmountUSD);
+  } else {
+    const matchedAmount = trade.pingAmount.gt(account.positionSize)
+      ? account.positionSize
+      : trade.pingAmount;
+    const matchedCostUSD = account.avgEntryPriceUSD.times(matchedAmount);
+    const matchedProceedsUSD = safeDiv(quoteAmountUSD.times(matchedAmount), trade.pingAmount);
+
+    realizedPnlUSD = matchedProceedsUSD.minus(matchedCostUSD);
+    positionSize = account.positionSize.minus(matchedAmount);
+    costBasisUSD = positionSize.gt(ZERO_BD) ? account.costBasisUSD.minus(matchedCostUSD) : ZERO_BD;
+  }
+
+  const avgEntryPriceUSD = safeDiv(costBasisUSD, positionSize);
+
+  const updatedAccount: Account = {
+    ...account,
+    positionSize,
+    costBasisUSD,
+    avgEntryPriceUSD,
+    totalBuyCostUSD: trade.isBuy
+      ? account.totalBuyCostUSD.plus(quoteAmountUSD)
+      : account.totalBuyCostUSD,
+    totalSellProceedsUSD: trade.isBuy
+      ? account.totalSellProceedsUSD
+      : account.totalSellProceedsUSD.plus(quoteAmountUSD),
+    realizedPnlUSD: account.realizedPnlUSD.plus(realizedPnlUSD),
+    unrealizedPnlUSDAtLastTrade: positionSize.times(prices.pingPriceUSD).minus(costBasisUSD),
+    markPriceUSDAtLastTrade: prices.pingPriceUSD,
+  };
+
+  const accountTrade: AccountTrade = {
+    id: `${trade.chainId}_${trade.blockNumber}_${trade.logIndex}`,
+    chainId: trade.chainId,
+    account_id: account.id,
+    transactionHash: trade.transactionHash,
+    timestamp: trade.timestamp,
+    blockNumber: trade.blockNumber,
+    logIndex: trade.logIndex,
+    poolIdentifier: trade.poolIdentifier,
+    poolVersion: trade.poolVersion,
+    side: trade.isBuy ? POOL_RELATION_BUY : POOL_RELATION_SELL,
+    pingAmount: trade.pingAmount,
+    quoteToken: trade.quoteToken,
+    quoteAmount: trade.quoteAmount,
+    quoteAmountUSD,
+    priceUSD: safeDiv(quoteAmountUSD, trade.pingAmount),
+    realizedPnlUSD,
+    positionSizeAfter: positionSize,
+    avgEntryPriceUSDAfter: avgEntryPriceUSD,
+  };
+
+  return { account: updatedAccount, accountTrade };
+}
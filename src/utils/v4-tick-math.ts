@@ -10,43 +10,146 @@ import { BigDecimal } from "generated";
 
 // Constants for tick math calculations
 const Q96 = BigInt(2) ** BigInt(96);
-const MIN_TICK = -887272;
-const MAX_TICK = 887272;
+const Q128 = BigInt(2) ** BigInt(128);
+const Q32 = BigInt(2) ** BigInt(32);
+const MAX_UINT256 = BigInt(2) ** BigInt(256) - BigInt(1);
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigInt("4295128739");
+export const MAX_SQRT_RATIO = BigInt("1461446703485210103287273052203988822378723970342");
+
+/**
+ * 2^128 / sqrt(1.0001)^(2^i) for each bit i of the absolute tick
+ * Copied verbatim from Uniswap's TickMath library
+ */
+const TICK_RATIO_MULTIPLIERS: bigint[] = [
+  BigInt("0xfffcb933bd6fad37aa2d162d1a594001"),
+  BigInt("0xfff97272373d413259a46990580e213a"),
+  BigInt("0xfff2e50f5f656932ef12357cf3c7fdcc"),
+  BigInt("0xffe5caca7e10e4e61c3624eaa0941cd0"),
+  BigInt("0xffcb9843d60f6159c9db58835c926644"),
+  BigInt("0xff973b41fa98c081472e6896dfb254c0"),
+  BigInt("0xff2ea16466c96a3843ec78b326b52861"),
+  BigInt("0xfe5dee046a99a2a811c461f1969c3053"),
+  BigInt("0xfcbe86c7900a88aedcffc83b479aa3a4"),
+  BigInt("0xf987a7253ac413176f2b074cf7815e54"),
+  BigInt("0xf3392b0822b70005940c7a398e4b70f3"),
+  BigInt("0xe7159475a2c29b7443b29c7fa6e889d9"),
+  BigInt("0xd097f3bdfd2022b8845ad8f792aa5825"),
+  BigInt("0xa9f746462d870fdf8a65dc1f90e061e5"),
+  BigInt("0x70d869a156d2a1b890bb3df62baf32f7"),
+  BigInt("0x31be135f97d08fd981231505542fcfa6"),
+  BigInt("0x9aa508b5b7a84e1c677de54f3e99bc9"),
+  BigInt("0x5d6af8dedb81196699c329225ee604"),
+  BigInt("0x2216e584f5fa1ea926041bedfe98"),
+  BigInt("0x48a170391f7dc42444e8fa2"),
+];
 
 /**
  * Calculate sqrt(1.0001^tick) as a Q64.96 number
- * This is a simplified implementation - in production, you may want to use
- * the exact implementation from @uniswap/v3-sdk or similar
+ * Bit-exact port of TickMath.getSqrtRatioAtTick
+ *
+ * @param tick - tick to compute the sqrt price for
+ * @returns sqrt price as a Q64.96 number
  */
 export function getSqrtRatioAtTick(tick: number): bigint {
   // Ensure tick is within valid range
-  if (tick < MIN_TICK || tick > MAX_TICK) {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
     throw new Error(`Tick ${tick} out of range [${MIN_TICK}, ${MAX_TICK}]`);
   }
 
   const absTick = tick < 0 ? -tick : tick;
 
-  // Calculate ratio using approximation
-  // ratio = 1.0001^tick = sqrt(price)
-  // This is a simplified calculation; production should use the full implementation
+  let ratio = (absTick & 0x1) !== 0 ? TICK_RATIO_MULTIPLIERS[0] : Q128;
+  for (let i = 1; i < TICK_RATIO_MULTIPLIERS.length; i++) {
+    if ((absTick & (1 << i)) !== 0) {
+      ratio = (ratio * TICK_RATIO_MULTIPLIERS[i]) >> BigInt(128);
+    }
+  }
 
-  let ratio = Q96;
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
 
-  // Use bit shifts and multiplications to approximate 1.0001^tick
-  // This is a simplified version - full implementation would use the exact bit manipulation
-  // from Uniswap's TickMath library
+  // Convert from Q128.128 to Q64.96, rounding up
+  return (ratio >> BigInt(32)) + (ratio % Q32 === BigInt(0) ? BigInt(0) : BigInt(1));
+}
 
-  if (tick === 0) {
-    return Q96;
+/**
+ * Calculate the greatest tick whose sqrt price is <= the given sqrt price
+ * Bit-exact port of TickMath.getTickAtSqrtRatio
+ *
+ * @param sqrtPriceX96 - sqrt price as a Q64.96 number
+ * @returns greatest tick with getSqrtRatioAtTick(tick) <= sqrtPriceX96
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(
+      `Sqrt price ${sqrtPriceX96} out of range [${MIN_SQRT_RATIO}, ${MAX_SQRT_RATIO})`
+    );
   }
 
-  // Approximation for demonstration
-  // In production, use the exact TickMath implementation or library
-  const baseRatio = 1.0001;
-  const sqrtPrice = Math.sqrt(Math.pow(baseRatio, tick));
-  const sqrtPriceX96 = BigInt(Math.floor(sqrtPrice * Number(Q96)));
+  const ratio = sqrtPriceX96 << BigInt(32);
+  const msb = BigInt(ratio.toString(2).length - 1);
+
+  // Normalize ratio to a 128-bit mantissa in [2^127, 2^128)
+  let r = msb >= BigInt(128) ? ratio >> (msb - BigInt(127)) : ratio << (BigInt(127) - msb);
+
+  // log2(ratio) as a Q64.64 number, refined 14 bits past the integer part
+  let log2 = (msb - BigInt(128)) << BigInt(64);
+  for (let shift = 63; shift >= 50; shift--) {
+    r = (r * r) >> BigInt(127);
+    const f = r >> BigInt(128);
+    log2 = log2 | (f << BigInt(shift));
+    r = r >> f;
+  }
+
+  // log_sqrt(1.0001)(ratio) as a Q128.128 number
+  const logSqrt10001 = log2 * BigInt("255738958999603826347141");
+
+  const tickLow = Number(
+    (logSqrt10001 - BigInt("3402992956809132418596140100660247210")) >> BigInt(128)
+  );
+  const tickHigh = Number(
+    (logSqrt10001 + BigInt("291339464771989622907027621153398088495")) >> BigInt(128)
+  );
+
+  if (tickLow === tickHigh) {
+    return tickLow;
+  }
+  return getSqrtRatioAtTick(tickHigh) <= sqrtPriceX96 ? tickHigh : tickLow;
+}
+
+/**
+ * Smallest tick usable with the given tick spacing
+ */
+export function getMinUsableTick(tickSpacing: number): number {
+  return Math.ceil(MIN_TICK / tickSpacing) * tickSpacing;
+}
+
+/**
+ * Largest tick usable with the given tick spacing
+ */
+export function getMaxUsableTick(tickSpacing: number): number {
+  return Math.floor(MAX_TICK / tickSpacing) * tickSpacing;
+}
+
+/**
+ * Calculate (a * b) / denominator, rounding up
+ * BigInt has arbitrary precision, so no 512-bit intermediate handling is needed
+ */
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator === BigInt(0) ? result : result + BigInt(1);
+}
 
-  return sqrtPriceX96;
+/**
+ * Calculate a / b, rounding up
+ */
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b === BigInt(0) ? result : result + BigInt(1);
 }
 
 /**
@@ -54,6 +157,10 @@ export function getSqrtRatioAtTick(tick: number): bigint {
  *
  * Formula: amount0 = liquidity * (sqrt(upper) - sqrt(lower)) / (sqrt(upper) * sqrt(lower))
  *
+ * Follows SqrtPriceMath's signed rounding: adds round up (the pool never
+ * receives less than it needs), removes round down (the pool never pays out more).
+ * Unlike V4's SqrtPriceMath the result is from the pool's perspective, so adds are positive.
+ *
  * @param sqrtPriceAX96 - sqrt price at lower tick (Q64.96)
  * @param sqrtPriceBX96 - sqrt price at upper tick (Q64.96)
  * @param liquidity - liquidity amount (can be negative for burns)
@@ -64,41 +171,47 @@ export function getAmount0Delta(
   sqrtPriceBX96: bigint,
   liquidity: bigint
 ): bigint {
-  // Ensure sqrtPriceAX96 < sqrtPriceBX96
-  let sqrtPriceLowerX96 = sqrtPriceAX96;
-  let sqrtPriceUpperX96 = sqrtPriceBX96;
-  if (sqrtPriceAX96 > sqrtPriceBX96) {
-    sqrtPriceLowerX96 = sqrtPriceBX96;
-    sqrtPriceUpperX96 = sqrtPriceAX96;
-  }
-
   if (liquidity < BigInt(0)) {
     // For burns (negative liquidity)
-    return -getAmount0DeltaHelper(sqrtPriceLowerX96, sqrtPriceUpperX96, -liquidity, false);
+    return -getAmount0DeltaRounded(sqrtPriceAX96, sqrtPriceBX96, -liquidity, false);
   } else {
     // For mints (positive liquidity)
-    return getAmount0DeltaHelper(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, true);
+    return getAmount0DeltaRounded(sqrtPriceAX96, sqrtPriceBX96, liquidity, true);
   }
 }
 
 /**
- * Helper function for amount0 delta calculation
+ * Unsigned amount0 delta with explicit rounding
+ * Bit-exact port of SqrtPriceMath.getAmount0Delta(uint160, uint160, uint128, bool)
  */
-function getAmount0DeltaHelper(
-  sqrtPriceLowerX96: bigint,
-  sqrtPriceUpperX96: bigint,
+export function getAmount0DeltaRounded(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
   liquidity: bigint,
   roundUp: boolean
 ): bigint {
-  const numerator = liquidity * (sqrtPriceUpperX96 - sqrtPriceLowerX96);
-  const denominator = sqrtPriceUpperX96 * sqrtPriceLowerX96;
+  // Ensure sqrtPriceAX96 < sqrtPriceBX96
+  let sqrtPriceLowerX96 = sqrtPriceAX96;
+  let sqrtPriceUpperX96 = sqrtPriceBX96;
+  if (sqrtPriceAX96 > sqrtPriceBX96) {
+    sqrtPriceLowerX96 = sqrtPriceBX96;
+    sqrtPriceUpperX96 = sqrtPriceAX96;
+  }
+
+  if (sqrtPriceLowerX96 <= BigInt(0)) {
+    throw new Error("Sqrt price must be greater than zero");
+  }
+
+  const numerator1 = liquidity << BigInt(96);
+  const numerator2 = sqrtPriceUpperX96 - sqrtPriceLowerX96;
 
   if (roundUp) {
-    // Round up for more conservative amounts
-    return (numerator * Q96 + denominator - BigInt(1)) / denominator;
+    return divRoundingUp(
+      mulDivRoundingUp(numerator1, numerator2, sqrtPriceUpperX96),
+      sqrtPriceLowerX96
+    );
   } else {
-    // Round down
-    return (numerator * Q96) / denominator;
+    return (numerator1 * numerator2) / sqrtPriceUpperX96 / sqrtPriceLowerX96;
   }
 }
 
@@ -107,6 +220,8 @@ function getAmount0DeltaHelper(
  *
  * Formula: amount1 = liquidity * (sqrt(upper) - sqrt(lower))
  *
+ * Uses the same signed rounding as getAmount0Delta.
+ *
  * @param sqrtPriceAX96 - sqrt price at lower tick (Q64.96)
  * @param sqrtPriceBX96 - sqrt price at upper tick (Q64.96)
  * @param liquidity - liquidity amount (can be negative for burns)
@@ -117,39 +232,38 @@ export function getAmount1Delta(
   sqrtPriceBX96: bigint,
   liquidity: bigint
 ): bigint {
-  // Ensure sqrtPriceAX96 < sqrtPriceBX96
-  let sqrtPriceLowerX96 = sqrtPriceAX96;
-  let sqrtPriceUpperX96 = sqrtPriceBX96;
-  if (sqrtPriceAX96 > sqrtPriceBX96) {
-    sqrtPriceLowerX96 = sqrtPriceBX96;
-    sqrtPriceUpperX96 = sqrtPriceAX96;
-  }
-
   if (liquidity < BigInt(0)) {
     // For burns (negative liquidity)
-    return -getAmount1DeltaHelper(sqrtPriceLowerX96, sqrtPriceUpperX96, -liquidity, false);
+    return -getAmount1DeltaRounded(sqrtPriceAX96, sqrtPriceBX96, -liquidity, false);
   } else {
     // For mints (positive liquidity)
-    return getAmount1DeltaHelper(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, true);
+    return getAmount1DeltaRounded(sqrtPriceAX96, sqrtPriceBX96, liquidity, true);
   }
 }
 
 /**
- * Helper function for amount1 delta calculation
+ * Unsigned amount1 delta with explicit rounding
+ * Bit-exact port of SqrtPriceMath.getAmount1Delta(uint160, uint160, uint128, bool)
  */
-function getAmount1DeltaHelper(
-  sqrtPriceLowerX96: bigint,
-  sqrtPriceUpperX96: bigint,
+export function getAmount1DeltaRounded(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
   liquidity: bigint,
   roundUp: boolean
 ): bigint {
+  // Ensure sqrtPriceAX96 < sqrtPriceBX96
+  let sqrtPriceLowerX96 = sqrtPriceAX96;
+  let sqrtPriceUpperX96 = sqrtPriceBX96;
+  if (sqrtPriceAX96 > sqrtPriceBX96) {
+    sqrtPriceLowerX96 = sqrtPriceBX96;
+    sqrtPriceUpperX96 = sqrtPriceAX96;
+  }
+
   const diff = sqrtPriceUpperX96 - sqrtPriceLowerX96;
 
   if (roundUp) {
-    // Round up for more conservative amounts
-    return (liquidity * diff + Q96 - BigInt(1)) / Q96;
+    return mulDivRoundingUp(liquidity, diff, Q96);
   } else {
-    // Round down
     return (liquidity * diff) / Q96;
   }
 }
@@ -191,6 +305,73 @@ export function getLiquidityAmounts(
   }
 }
 
+/**
+ * Net liquidity change when the price crosses an initialized tick upwards
+ */
+export interface TickLiquidity {
+  tick: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * Active liquidity over one range between consecutive initialized ticks
+ */
+export interface LiquidityCurveSegment {
+  tickLower: number;
+  tickUpper: number; // Next initialized tick, or MAX_TICK past the last one
+  liquidity: bigint;
+}
+
+/**
+ * Walk initialized ticks outwards from the current tick to build the active liquidity curve
+ *
+ * Crossing a tick upwards adds its liquidityNet, crossing it downwards subtracts it,
+ * starting from the pool's active liquidity in the range containing the current tick.
+ *
+ * @param ticks - Initialized ticks of the pool, in any order
+ * @param currentTick - Current pool tick
+ * @param currentLiquidity - Current pool active liquidity
+ * @returns Segments from the lowest initialized tick upwards
+ */
+export function getLiquidityCurve(
+  ticks: TickLiquidity[],
+  currentTick: number,
+  currentLiquidity: bigint
+): LiquidityCurveSegment[] {
+  const sorted = [...ticks].sort((a, b) => a.tick - b.tick);
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  // Index of the last initialized tick at or below the current tick
+  let activeIndex = -1;
+  sorted.forEach(({ tick }, i) => {
+    if (tick <= currentTick) activeIndex = i;
+  });
+
+  const liquidity: bigint[] = new Array(sorted.length);
+  if (activeIndex >= 0) {
+    liquidity[activeIndex] = currentLiquidity;
+  }
+
+  // Walk up: crossing a tick upwards adds its liquidityNet
+  for (let i = activeIndex + 1; i < sorted.length; i++) {
+    const below = i === 0 ? currentLiquidity : liquidity[i - 1];
+    liquidity[i] = below + sorted[i].liquidityNet;
+  }
+
+  // Walk down: the range below a tick lacks the liquidity that crossing it added
+  for (let i = activeIndex - 1; i >= 0; i--) {
+    liquidity[i] = liquidity[i + 1] - sorted[i + 1].liquidityNet;
+  }
+
+  return sorted.map(({ tick }, i) => ({
+    tickLower: tick,
+    tickUpper: i + 1 < sorted.length ? sorted[i + 1].tick : MAX_TICK,
+    liquidity: liquidity[i],
+  }));
+}
+
 /**
  * Convert bigint to BigDecimal with proper decimals
  */
@@ -1,12 +1,15 @@
 import assert from "assert";
 import {
   TestHelpers,
+  BigDecimal,
   Account,
   Transfer,
   Token,
+  Pool,
+  PoolV4,
 } from "generated";
 
-const { MockDb, Ping, UniswapV3Pool } = TestHelpers;
+const { MockDb, Ping, UniswapV3Pool, UniswapV4PoolManager } = TestHelpers;
 
 describe("PING Token Transfer event tests", () => {
   // Create mock db
@@ -62,6 +65,301 @@ describe("PING Token Transfer event tests", () => {
   });
 });
 
+describe("PING AccountPair tests", () => {
+  const chainId = 8453;
+  const alice = "0x0000000000000000000000000000000000000001";
+  const bob = "0x0000000000000000000000000000000000000002";
+
+  const transfer = (from: string, to: string, logIndex: number) =>
+    Ping.Transfer.createMockEvent({
+      from,
+      to,
+      value: 1000000000000000000n,
+      mockEventData: { chainId, logIndex },
+    });
+
+  it("Aggregates repeated flows and flags reciprocal pairs", async () => {
+    let mockDb = MockDb.createMockDb();
+    mockDb = await Ping.Transfer.processEvent({ event: transfer(alice, bob, 0), mockDb });
+    mockDb = await Ping.Transfer.processEvent({ event: transfer(alice, bob, 1), mockDb });
+
+    const pair = mockDb.entities.AccountPair.get(`${chainId}_${alice}_${bob}`);
+    assert.equal(pair?.transferCount, 2n);
+    assert.equal(pair?.totalValue.toString(), "2");
+    assert.equal(pair?.isReciprocal, false);
+
+    mockDb = await Ping.Transfer.processEvent({ event: transfer(bob, alice, 2), mockDb });
+
+    assert.equal(mockDb.entities.AccountPair.get(`${chainId}_${alice}_${bob}`)?.isReciprocal, true);
+    assert.equal(mockDb.entities.AccountPair.get(`${chainId}_${bob}_${alice}`)?.isReciprocal, true);
+  });
+
+  it("Skips mints", async () => {
+    const mockDb = await Ping.Transfer.processEvent({
+      event: transfer("0x0000000000000000000000000000000000000000", alice, 0),
+      mockDb: MockDb.createMockDb(),
+    });
+    assert.equal(mockDb.entities.AccountPair.getAll().length, 0);
+  });
+});
+
+describe("PING balance history tests", () => {
+  const chainId = 8453;
+  const alice = "0x0000000000000000000000000000000000000001";
+  const bob = "0x0000000000000000000000000000000000000002";
+
+  it("Snapshots every balance change and rolls them up per day", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const [from, to, value, logIndex] of [
+      [alice, bob, 3000000000000000000n, 0],
+      [bob, alice, 2000000000000000000n, 1],
+    ] as const) {
+      mockDb = await Ping.Transfer.processEvent({
+        event: Ping.Transfer.createMockEvent({ from, to, value, mockEventData: { chainId, logIndex } }),
+        mockDb,
+      });
+    }
+
+    const bobSnapshots = mockDb.entities.AccountBalanceSnapshot.getAll()
+      .filter((snapshot) => snapshot.account_id === `${chainId}_${bob}`)
+      .sort((a, b) => Number(a.logIndex - b.logIndex));
+    assert.deepEqual(bobSnapshots.map((snapshot) => snapshot.balance.toString()), ["3", "1"]);
+    assert.equal(bobSnapshots[1]?.delta.toString(), "-2");
+
+    const bobDaily = mockDb.entities.AccountDailyBalance.getAll()
+      .find((daily) => daily.account_id === `${chainId}_${bob}`);
+    assert.equal(bobDaily?.openBalance.toString(), "0");
+    assert.equal(bobDaily?.closeBalance.toString(), "1");
+    assert.equal(bobDaily?.maxBalance.toString(), "3");
+    assert.equal(bobDaily?.changeCount, 2n);
+  });
+
+  it("Treats a self-transfer as a zero balance change", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const [from, to, value, logIndex] of [
+      ["0x0000000000000000000000000000000000000000", alice, 3000000000000000000n, 0],
+      [alice, alice, 2000000000000000000n, 1],
+    ] as const) {
+      mockDb = await Ping.Transfer.processEvent({
+        event: Ping.Transfer.createMockEvent({ from, to, value, mockEventData: { chainId, logIndex } }),
+        mockDb,
+      });
+    }
+
+    const account = mockDb.entities.Account.get(`${chainId}_${alice}`);
+    assert.equal(account?.balance.toString(), "3");
+    assert.equal(account?.transferCount, 2n);
+
+    const snapshots = mockDb.entities.AccountBalanceSnapshot.getAll();
+    assert.deepEqual(snapshots.map((snapshot) => snapshot.balance.toString()), ["3"]);
+    assert.equal(mockDb.entities.AccountDailyBalance.getAll()[0]?.closeBalance.toString(), "3");
+  });
+});
+
+describe("PING holder distribution tests", () => {
+  const chainId = 8453;
+  const alice = "0x0000000000000000000000000000000000000001";
+  const bob = "0x0000000000000000000000000000000000000002";
+  const carol = "0x0000000000000000000000000000000000000003";
+
+  it("Buckets holders and tracks concentration incrementally", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const [from, to, value, logIndex] of [
+      ["0x0000000000000000000000000000000000000000", alice, 4000000000000000000n, 0],
+      [alice, bob, 2000000000000000000n, 1],
+      [bob, carol, 1500000000000000000n, 2],
+    ] as const) {
+      mockDb = await Ping.Transfer.processEvent({
+        event: Ping.Transfer.createMockEvent({ from, to, value, mockEventData: { chainId, logIndex } }),
+        mockDb,
+      });
+    }
+
+    // alice 2, bob 0.5, carol 1.5
+    const token = mockDb.entities.Token.getAll()[0];
+    assert.equal(token?.holdersUnder1, 1n);
+    assert.equal(token?.holders1To1k, 2n);
+    assert.equal(token?.holders1kTo100k, 0n);
+    assert.equal(token?.holderBalanceSum.toString(), "4");
+    assert.equal(token?.hhi.toString(), "0.40625"); // (4 + 0.25 + 2.25) / 16
+    assert.deepEqual(token?.topHolders, [alice, carol, bob]);
+    assert.equal(token?.topHoldersShare.toString(), "1");
+
+    const daily = mockDb.entities.DailyTokenActivity.getAll()[0];
+    assert.equal(daily?.holderCount, 3n);
+    assert.equal(daily?.hhi.toString(), "0.40625");
+  });
+
+  it("Leaves holder count and distribution unchanged on a self-transfer", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const [from, to, value, logIndex] of [
+      ["0x0000000000000000000000000000000000000000", alice, 2000000000000000000n, 0],
+      [alice, alice, 2000000000000000000n, 1],
+    ] as const) {
+      mockDb = await Ping.Transfer.processEvent({
+        event: Ping.Transfer.createMockEvent({ from, to, value, mockEventData: { chainId, logIndex } }),
+        mockDb,
+      });
+    }
+
+    const token = mockDb.entities.Token.getAll()[0];
+    assert.equal(token?.holderCount, 1n);
+    assert.equal(token?.holders1To1k, 1n);
+    assert.equal(token?.holderBalanceSum.toString(), "2");
+    assert.deepEqual(token?.topHolders, [alice]);
+    assert.equal(mockDb.entities.Account.get(`${chainId}_${alice}`)?.balance.toString(), "2");
+  });
+});
+
+describe("PING totalSupply tracking tests", () => {
+  const mockDb = MockDb.createMockDb();
+
+  const mintEvent = Ping.Transfer.createMockEvent({
+    from: "0x0000000000000000000000000000000000000000",
+    to: "0x0000000000000000000000000000000000000002",
+    value: 5000000000000000000n, // 5 tokens
+    mockEventData: { logIndex: 0 },
+  });
+
+  const burnEvent = Ping.Transfer.createMockEvent({
+    from: "0x0000000000000000000000000000000000000002",
+    to: "0x0000000000000000000000000000000000000000",
+    value: 2000000000000000000n, // 2 tokens
+    mockEventData: { logIndex: 1 },
+  });
+
+  it("Mints and burns update totalSupply and supply history", async () => {
+    const afterMint = await Ping.Transfer.processEvent({ event: mintEvent, mockDb });
+    const afterBurn = await Ping.Transfer.processEvent({ event: burnEvent, mockDb: afterMint });
+
+    const token = afterBurn.entities.Token.getAll()[0];
+    assert.equal(token?.totalSupply, 3000000000000000000n);
+
+    const burnChange = afterBurn.entities.SupplyChange.get(
+      `${burnEvent.chainId}_${burnEvent.block.number}_${burnEvent.logIndex}`
+    );
+    assert.equal(burnChange?.changeType, "BURN");
+    assert.equal(burnChange?.delta, -2000000000000000000n);
+    assert.equal(burnChange?.newSupply, 3000000000000000000n);
+
+    const daily = afterBurn.entities.DailyTokenActivity.getAll()[0];
+    assert.equal(daily?.dailyMinted.toString(), "5");
+    assert.equal(daily?.dailyBurned.toString(), "2");
+  });
+});
+
+describe("Daily active account tests", () => {
+  const mockDb = MockDb.createMockDb();
+
+  const firstEvent = Ping.Transfer.createMockEvent({
+    from: "0x0000000000000000000000000000000000000001",
+    to: "0x0000000000000000000000000000000000000002",
+    value: 1000000000000000000n,
+    mockEventData: { logIndex: 0 },
+  });
+
+  const secondEvent = Ping.Transfer.createMockEvent({
+    from: "0x0000000000000000000000000000000000000001",
+    to: "0x0000000000000000000000000000000000000003",
+    value: 1000000000000000000n,
+    mockEventData: { logIndex: 1 },
+  });
+
+  it("Counts each address once per day", async () => {
+    const afterFirst = await Ping.Transfer.processEvent({ event: firstEvent, mockDb });
+    const afterSecond = await Ping.Transfer.processEvent({ event: secondEvent, mockDb: afterFirst });
+
+    const daily = afterSecond.entities.DailyTokenActivity.getAll()[0];
+    assert.equal(daily?.dailyTransfers, 2n);
+    assert.equal(daily?.dailyActiveAccounts, 3n);
+    assert.equal(afterSecond.entities.AccountDayActivity.getAll().length, 3);
+  });
+});
+
+describe("V4 PoolManager transfer tests", () => {
+  const poolManager = "0x498581fF718922c3f8e6A244956aF099B2652b2b";
+  const txHash = "0x2222222222222222222222222222222222222222222222222222222222222222";
+  const chainId = 8453;
+  const poolEntityId = `${chainId}_0x1111111111111111111111111111111111111111111111111111111111111111`;
+
+  // A V4 swap earlier in the same transaction left a lookup entry
+  const mockDb = MockDb.createMockDb().entities.PoolV4SwapLookup.set({
+    id: chainId.toString(),
+    transactionHash: txHash,
+    poolIds: [poolEntityId],
+    pingAmounts: [1000000000000000000n],
+  });
+
+  const event = Ping.Transfer.createMockEvent({
+    from: poolManager,
+    to: "0x0000000000000000000000000000000000000002",
+    value: 1000000000000000000n,
+    mockEventData: { chainId, logIndex: 1, transaction: { hash: txHash } },
+  });
+
+  it("Links the transfer to the V4 pool and skips the PoolManager account", async () => {
+    const mockDbUpdated = await Ping.Transfer.processEvent({ event, mockDb });
+
+    const transfer = mockDbUpdated.entities.Transfer.get(
+      `${chainId}_${event.block.number}_${event.logIndex}`
+    );
+    assert.equal(transfer?.isPoolRelated, true);
+    assert.equal(transfer?.poolRelatedType, "BUY");
+    assert.equal(transfer?.relatedPoolV4_id, poolEntityId);
+
+    const poolManagerAccount = mockDbUpdated.entities.Account.get(
+      `${chainId}_${poolManager.toLowerCase()}`
+    );
+    assert.equal(poolManagerAccount, undefined, "PoolManager should not be tracked as an account");
+
+    const token = mockDbUpdated.entities.Token.getAll()[0];
+    assert.equal(token?.holderCount, 1n);
+  });
+
+  it("Links each transfer of a multi-swap transaction to the swap with its PING amount", async () => {
+    const otherPoolEntityId = `${chainId}_0x${"4".repeat(64)}`;
+    const multiSwapDb = mockDb.entities.PoolV4SwapLookup.set({
+      id: chainId.toString(),
+      transactionHash: txHash,
+      poolIds: [poolEntityId, otherPoolEntityId],
+      pingAmounts: [1000000000000000000n, 3000000000000000000n],
+    });
+
+    const firstSwapDb = await Ping.Transfer.processEvent({ event, mockDb: multiSwapDb });
+    assert.equal(
+      firstSwapDb.entities.Transfer.get(`${chainId}_${event.block.number}_${event.logIndex}`)
+        ?.relatedPoolV4_id,
+      poolEntityId,
+      "Transfer should link to the earlier swap it settles"
+    );
+
+    // A netted amount matches no single swap and falls back to the latest one
+    const nettedEvent = Ping.Transfer.createMockEvent({
+      ...event.params,
+      value: 2000000000000000000n,
+      mockEventData: { chainId, logIndex: 2, transaction: { hash: txHash } },
+    });
+    const nettedDb = await Ping.Transfer.processEvent({ event: nettedEvent, mockDb: multiSwapDb });
+    assert.equal(
+      nettedDb.entities.Transfer.get(`${chainId}_${nettedEvent.block.number}_${nettedEvent.logIndex}`)
+        ?.relatedPoolV4_id,
+      otherPoolEntityId
+    );
+  });
+
+  it("Ignores the lookup left by a swap in an earlier transaction", async () => {
+    const laterEvent = Ping.Transfer.createMockEvent({
+      ...event.params,
+      mockEventData: { chainId, logIndex: 1, transaction: { hash: `0x${"3".repeat(64)}` } },
+    });
+    const mockDbUpdated = await Ping.Transfer.processEvent({ event: laterEvent, mockDb });
+
+    const transfer = mockDbUpdated.entities.Transfer.getAll()[0];
+    assert.equal(transfer?.isPoolRelated, true);
+    assert.equal(transfer?.relatedPoolV4_id, undefined);
+  });
+});
+
 describe("Uniswap V3 Pool Swap event tests", () => {
   const mockDb = MockDb.createMockDb();
 
@@ -69,8 +367,8 @@ describe("Uniswap V3 Pool Swap event tests", () => {
   const event = UniswapV3Pool.Swap.createMockEvent({
     sender: "0x0000000000000000000000000000000000000001",
     recipient: "0x0000000000000000000000000000000000000002",
-    amount0: -1000000n, // Negative means tokens going into pool (USDC, 6 decimals)
-    amount1: 1000000000000000000n, // Positive means tokens coming out (PING, 18 decimals)
+    amount0: -1000000n, // Negative means tokens coming out of pool (USDC, 6 decimals)
+    amount1: 1000000000000000000n, // Positive means tokens going into pool (PING, 18 decimals)
     sqrtPriceX96: 79228162514264337593543950336n,
     liquidity: 1000000000000000n,
     tick: 0n,
@@ -104,3 +402,995 @@ describe("Uniswap V3 Pool Swap event tests", () => {
     assert.equal(pool?.txCount, 1n, "Pool tx count should be 1");
   });
 });
+
+// Seed a PING V4 pool at price 1 (tick 0) with no liquidity
+const V4_CHAIN_ID = 8453;
+const V4_POOL_ID = "0x1111111111111111111111111111111111111111111111111111111111111111";
+
+function createV4PoolMockDb(overrides: Partial<PoolV4> = {}) {
+  const pool: PoolV4 = {
+    id: `${V4_CHAIN_ID}_${V4_POOL_ID}`,
+    chainId: BigInt(V4_CHAIN_ID),
+    poolId: V4_POOL_ID,
+    currency0: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+    currency1: "0xd85c31854c2b0fb40aaa9e2fc4da23c21f829d46",
+    fee: 3000n,
+    tickSpacing: 60n,
+    hooks: "0x0000000000000000000000000000000000000000",
+    currency0Symbol: "USDC",
+    currency0Name: "USD Coin",
+    currency0Decimals: 6n,
+    currency1Symbol: "PING",
+    currency1Name: "Ping",
+    currency1Decimals: 18n,
+    liquidity: 0n,
+    sqrtPriceX96: 79228162514264337593543950336n,
+    tick: 0n,
+    token0Price: new BigDecimal("1e-12"),
+    token1Price: new BigDecimal("1e12"),
+    isActive: false,
+    volumeCurrency0: new BigDecimal("0"),
+    volumeCurrency1: new BigDecimal("0"),
+    txCount: 0n,
+    totalValueLockedCurrency0: new BigDecimal("0"),
+    totalValueLockedCurrency1: new BigDecimal("0"),
+    volumeUSD: new BigDecimal("0"),
+    tvlUSD: new BigDecimal("0"),
+    feesCurrency0: new BigDecimal("0"),
+    feesCurrency1: new BigDecimal("0"),
+    feesUSD: new BigDecimal("0"),
+    createdAt: 0n,
+    createdAtBlock: 0n,
+    lastSwapAt: 0n,
+    ...overrides,
+  };
+
+  return MockDb.createMockDb()
+    .entities.PoolV4Registry.set({
+      id: V4_POOL_ID,
+      poolId: V4_POOL_ID,
+      isPingPool: true,
+      currency0: pool.currency0,
+      currency1: pool.currency1,
+    })
+    .entities.PoolV4.set(pool);
+}
+
+describe("Uniswap V4 ModifyLiquidity event tests", () => {
+  const poolId = V4_POOL_ID;
+  const chainId = V4_CHAIN_ID;
+  const poolEntityId = `${chainId}_${poolId}`;
+  const mockDb = createV4PoolMockDb();
+
+  const event = UniswapV4PoolManager.ModifyLiquidity.createMockEvent({
+    id: poolId,
+    sender: "0x0000000000000000000000000000000000000001",
+    tickLower: -60n,
+    tickUpper: 60n,
+    liquidityDelta: 1000000000000000000n,
+    salt: "0x0000000000000000000000000000000000000000000000000000000000000000",
+    mockEventData: { chainId },
+  });
+
+  it("ModifyLiquidityV4 is created with derived amounts", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.ModifyLiquidity.processEvent({
+      event,
+      mockDb,
+    });
+
+    const modification = mockDbUpdated.entities.ModifyLiquidityV4.get(
+      `${chainId}_${event.block.number}_${event.logIndex}`
+    );
+
+    assert.ok(modification, "ModifyLiquidityV4 entity should exist");
+    assert.equal(modification?.modificationType, "ADD");
+    assert.ok(modification?.amount0?.gt(0), "amount0 should be positive");
+    assert.ok(modification?.amount1?.gt(0), "amount1 should be positive");
+  });
+
+  it("Pool liquidity, TVL and daily adds are updated", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.ModifyLiquidity.processEvent({
+      event,
+      mockDb,
+    });
+
+    const updatedPool = mockDbUpdated.entities.PoolV4.get(poolEntityId);
+    assert.equal(updatedPool?.liquidity, 1000000000000000000n);
+    assert.equal(updatedPool?.isActive, true);
+    assert.ok(updatedPool?.totalValueLockedCurrency0.gt(0), "TVL0 should increase");
+
+    const daily = mockDbUpdated.entities.DailyPoolActivity.getAll()[0];
+    assert.equal(daily?.dailyLiquidityAdds, 1n);
+    assert.equal(daily?.dailyLiquidityRemoves, 0n);
+  });
+
+  it("Opens a salted position and refreshes inRange when the tick moves", async () => {
+    const afterAdd = await UniswapV4PoolManager.ModifyLiquidity.processEvent({ event, mockDb });
+    const positionId = `${poolEntityId}_0x0000000000000000000000000000000000000001_-60_60_${event.params.salt}`;
+    assert.equal(afterAdd.entities.Position.get(positionId)?.inRange, true);
+    assert.equal(afterAdd.entities.Position.get(positionId)?.poolVersion, "V4");
+
+    const afterSwap = await UniswapV4PoolManager.Swap.processEvent({
+      event: UniswapV4PoolManager.Swap.createMockEvent({
+        id: poolId,
+        sender: "0x0000000000000000000000000000000000000009",
+        amount0: -2000000n,
+        amount1: 2000000000000000000n,
+        sqrtPriceX96: 79228162514264337593543950336000000n,
+        liquidity: 1000000000000000000n,
+        tick: 276324n,
+        swapFee: 3000n,
+        mockEventData: { chainId, logIndex: 1 },
+      }),
+      mockDb: afterAdd,
+    });
+
+    const position = afterSwap.entities.Position.get(positionId);
+    assert.equal(position?.inRange, false, "Tick moved above the range");
+    assert.equal(position?.isOpen, true);
+  });
+});
+
+describe("Uniswap V3 Pool Mint/Burn/Collect event tests", () => {
+  const chainId = 8453;
+  const poolAddress = "0xbc51db8aec659027ae0b0e468c0735418161a780";
+  const poolId = `${chainId}_${poolAddress}`;
+
+  // Seed an initialized USDC/PING V3 pool at tick 0 with no liquidity
+  const pool: Pool = {
+    id: poolId,
+    chainId: BigInt(chainId),
+    address: poolAddress,
+    token0: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+    token1: "0xd85c31854c2b0fb40aaa9e2fc4da23c21f829d46",
+    feeTier: 3000n,
+    tickSpacing: 60n,
+    token0Symbol: "USDC",
+    token0Name: "USD Coin",
+    token0Decimals: 6n,
+    token1Symbol: "PING",
+    token1Name: "Ping",
+    token1Decimals: 18n,
+    liquidity: 0n,
+    sqrtPriceX96: 79228162514264337593543950336n,
+    tick: 0n,
+    token0Price: new BigDecimal("1e-12"),
+    token1Price: new BigDecimal("1e12"),
+    isActive: true,
+    volumeToken0: new BigDecimal("0"),
+    volumeToken1: new BigDecimal("0"),
+    txCount: 0n,
+    totalValueLockedToken0: new BigDecimal("0"),
+    totalValueLockedToken1: new BigDecimal("0"),
+    volumeUSD: new BigDecimal("0"),
+    tvlUSD: new BigDecimal("0"),
+    feesToken0: new BigDecimal("0"),
+    feesToken1: new BigDecimal("0"),
+    feesUSD: new BigDecimal("0"),
+    createdAt: 0n,
+    createdAtBlock: 0n,
+    lastSwapAt: 0n,
+  };
+
+  const mockDb = MockDb.createMockDb().entities.Pool.set(pool);
+
+  const mintEvent = UniswapV3Pool.Mint.createMockEvent({
+    sender: "0x0000000000000000000000000000000000000001",
+    owner: "0x0000000000000000000000000000000000000001",
+    tickLower: -60n,
+    tickUpper: 60n,
+    amount: 1000000000000000n,
+    amount0: 2000000n, // 2 USDC
+    amount1: 3000000000000000000n, // 3 PING
+    mockEventData: { chainId, srcAddress: poolAddress, logIndex: 0 },
+  });
+
+  const collectEvent = UniswapV3Pool.Collect.createMockEvent({
+    owner: "0x0000000000000000000000000000000000000001",
+    recipient: "0x0000000000000000000000000000000000000001",
+    tickLower: -60n,
+    tickUpper: 60n,
+    amount0: 500000n, // 0.5 USDC
+    amount1: 1000000000000000000n, // 1 PING
+    mockEventData: { chainId, srcAddress: poolAddress, logIndex: 1 },
+  });
+
+  it("Mint creates a LiquidityEvent and increases TVL and liquidity", async () => {
+    const mockDbUpdated = await UniswapV3Pool.Mint.processEvent({
+      event: mintEvent,
+      mockDb,
+    });
+
+    const liquidityEvent = mockDbUpdated.entities.LiquidityEvent.get(
+      `${chainId}_${mintEvent.block.number}_${mintEvent.logIndex}`
+    );
+    assert.equal(liquidityEvent?.eventType, "MINT");
+
+    const updatedPool = mockDbUpdated.entities.Pool.get(poolId);
+    assert.equal(updatedPool?.liquidity, 1000000000000000n);
+    assert.equal(updatedPool?.totalValueLockedToken0.toString(), "2");
+    assert.equal(updatedPool?.totalValueLockedToken1.toString(), "3");
+
+    const daily = mockDbUpdated.entities.DailyPoolActivity.getAll()[0];
+    assert.equal(daily?.dailyLiquidityAdds, 1n);
+  });
+
+  it("Collect removes collected tokens from TVL", async () => {
+    const afterMint = await UniswapV3Pool.Mint.processEvent({
+      event: mintEvent,
+      mockDb,
+    });
+    const mockDbUpdated = await UniswapV3Pool.Collect.processEvent({
+      event: collectEvent,
+      mockDb: afterMint,
+    });
+
+    const updatedPool = mockDbUpdated.entities.Pool.get(poolId);
+    assert.equal(updatedPool?.totalValueLockedToken0.toString(), "1.5");
+    assert.equal(updatedPool?.totalValueLockedToken1.toString(), "2");
+  });
+
+  it("Account buys and sells follow the same direction as the Trade side", async () => {
+    const trader = "0x0000000000000000000000000000000000000007";
+    const swapEvent = (amount0: bigint, amount1: bigint, logIndex: number) =>
+      UniswapV3Pool.Swap.createMockEvent({
+        sender: trader,
+        recipient: trader,
+        amount0,
+        amount1,
+        sqrtPriceX96: 79228162514264337593543950336n,
+        liquidity: 0n,
+        tick: 0n,
+        mockEventData: { chainId, srcAddress: poolAddress, logIndex, transaction: { from: trader } },
+      });
+
+    // The pool paid out PING (negative amount1), so the trader bought
+    const afterTransfer = await Ping.Transfer.processEvent({
+      event: Ping.Transfer.createMockEvent({
+        from: poolAddress,
+        to: trader,
+        value: 1000000000000000000n,
+        mockEventData: { chainId },
+      }),
+      mockDb,
+    });
+    const afterBuy = await UniswapV3Pool.Swap.processEvent({
+      event: swapEvent(1000000n, -1000000000000000000n, 1),
+      mockDb: afterTransfer,
+    });
+    const buyer = afterBuy.entities.Account.get(`${chainId}_${trader}`);
+    assert.equal(afterBuy.entities.Trade.getAll()[0]?.side, "BUY");
+    assert.equal(buyer?.totalBuys, 1n);
+    assert.equal(buyer?.totalSells, 0n);
+
+    // The pool received PING (positive amount1), so the trader sold
+    const afterSell = await UniswapV3Pool.Swap.processEvent({
+      event: swapEvent(-1000000n, 1000000000000000000n, 2),
+      mockDb: afterBuy,
+    });
+    const seller = afterSell.entities.Account.get(`${chainId}_${trader}`);
+    assert.equal(seller?.totalBuys, 1n);
+    assert.equal(seller?.totalSells, 1n);
+    assert.equal(seller?.totalSellVolume.toString(), "1");
+  });
+
+  it("Mint, Burn and Collect maintain the LP position", async () => {
+    const burnEvent = UniswapV3Pool.Burn.createMockEvent({
+      owner: "0x0000000000000000000000000000000000000001",
+      tickLower: -60n,
+      tickUpper: 60n,
+      amount: 1000000000000000n,
+      amount0: 2000000n,
+      amount1: 3000000000000000000n,
+      mockEventData: { chainId, srcAddress: poolAddress, logIndex: 1 },
+    });
+    const afterMint = await UniswapV3Pool.Mint.processEvent({ event: mintEvent, mockDb });
+    const afterBurn = await UniswapV3Pool.Burn.processEvent({ event: burnEvent, mockDb: afterMint });
+    const afterCollect = await UniswapV3Pool.Collect.processEvent({
+      event: UniswapV3Pool.Collect.createMockEvent({
+        ...collectEvent.params,
+        mockEventData: { chainId, srcAddress: poolAddress, logIndex: 2 },
+      }),
+      mockDb: afterBurn,
+    });
+
+    const lowerTick = afterMint.entities.Tick.get(`${poolId}_-60`);
+    assert.equal(lowerTick?.liquidityGross, 1000000000000000n);
+    assert.equal(lowerTick?.liquidityNet, 1000000000000000n);
+    assert.equal(afterMint.entities.Tick.get(`${poolId}_60`)?.liquidityNet, -1000000000000000n);
+    assert.equal(afterBurn.entities.Tick.getAll().length, 0, "Emptied ticks are removed");
+
+    const positionId = `${poolId}_0x0000000000000000000000000000000000000001_-60_60`;
+    const opened = afterMint.entities.Position.get(positionId);
+    assert.equal(opened?.isOpen, true);
+    assert.equal(opened?.inRange, true);
+    assert.equal(opened?.depositedToken1.toString(), "3");
+
+    const position = afterCollect.entities.Position.get(positionId);
+    assert.equal(position?.liquidity, 0n);
+    assert.equal(position?.isOpen, false);
+    assert.equal(position?.openPoolId, undefined);
+    assert.ok(position?.closedAt !== undefined, "Closing sets closedAt");
+    assert.equal(position?.withdrawnToken0.toString(), "2");
+    assert.equal(position?.collectedToken0.toString(), "0.5");
+    assert.equal(position?.collectedToken1.toString(), "1");
+  });
+  it("LiquidityDeployed links the position to the mint in the same transaction", async () => {
+    const hash = "0x00000000000000000000000000000000000000000000000000000000000000aa";
+    const afterMint = await UniswapV3Pool.Mint.processEvent({
+      event: UniswapV3Pool.Mint.createMockEvent({
+        ...mintEvent.params,
+        mockEventData: { chainId, srcAddress: poolAddress, logIndex: 0, transaction: { hash } },
+      }),
+      mockDb,
+    });
+    const mockDbUpdated = await Ping.LiquidityDeployed.processEvent({
+      event: Ping.LiquidityDeployed.createMockEvent({
+        tokenId: 42n,
+        liquidity: 1000000000000000n,
+        mockEventData: { chainId, logIndex: 1, transaction: { hash } },
+      }),
+      mockDb: afterMint,
+    });
+
+    const deployment = mockDbUpdated.entities.ProtocolLiquidityDeployment.getAll()[0];
+    assert.equal(deployment?.tokenId, 42n);
+    assert.equal(deployment?.pool_id, poolId);
+    assert.equal(deployment?.tickLower, -60n);
+    assert.equal(
+      deployment?.position_id,
+      `${poolId}_0x0000000000000000000000000000000000000001_-60_60`
+    );
+
+    const protocol = mockDbUpdated.entities.Protocol.get(`${chainId}`);
+    assert.equal(protocol?.totalLiquidityDeployed, 1000000000000000n);
+    assert.equal(protocol?.liquidityDeploymentCount, 1n);
+  });
+
+  it("FeesCollected converts amounts with the collected pool's decimals", async () => {
+    const hash = "0x00000000000000000000000000000000000000000000000000000000000000ab";
+    const afterCollect = await UniswapV3Pool.Collect.processEvent({
+      event: UniswapV3Pool.Collect.createMockEvent({
+        ...collectEvent.params,
+        mockEventData: { chainId, srcAddress: poolAddress, logIndex: 0, transaction: { hash } },
+      }),
+      mockDb,
+    });
+    const mockDbUpdated = await Ping.FeesCollected.processEvent({
+      event: Ping.FeesCollected.createMockEvent({
+        recipient: "0x0000000000000000000000000000000000000002",
+        amountToken0: 1500000n, // 1.5 USDC
+        amountToken1: 2000000000000000000n, // 2 PING
+        mockEventData: { chainId, logIndex: 1, transaction: { hash } },
+      }),
+      mockDb: afterCollect,
+    });
+
+    const feeCollection = mockDbUpdated.entities.ProtocolFeeCollection.getAll()[0];
+    assert.equal(feeCollection?.pool_id, poolId);
+    assert.equal(feeCollection?.amountToken0?.toString(), "1.5");
+
+    // Totals are kept per token, never summed across tokens
+    const usdcFees = mockDbUpdated.entities.ProtocolTokenFees.get(`${chainId}_${pool.token0}`);
+    const pingFees = mockDbUpdated.entities.ProtocolTokenFees.get(`${chainId}_${pool.token1}`);
+    assert.equal(usdcFees?.totalFees.toString(), "1.5");
+    assert.equal(usdcFees?.totalFeesUSD.toString(), "1.5");
+    assert.equal(pingFees?.totalFees.toString(), "2");
+
+    const protocol = mockDbUpdated.entities.Protocol.get(`${chainId}`);
+    assert.equal(protocol?.feeCollectionCount, 1n);
+    assert.equal(protocol?.totalFeesUSD.toString(), "1.5");
+  });
+
+  it("FeesCollected without a collect in the transaction is not credited to a pool", async () => {
+    const mockDbUpdated = await Ping.FeesCollected.processEvent({
+      event: Ping.FeesCollected.createMockEvent({
+        recipient: "0x0000000000000000000000000000000000000002",
+        amountToken0: 1500000n,
+        amountToken1: 2000000000000000000n,
+        mockEventData: { chainId },
+      }),
+      mockDb,
+    });
+
+    const feeCollection = mockDbUpdated.entities.ProtocolFeeCollection.getAll()[0];
+    assert.equal(feeCollection?.pool_id, undefined);
+    assert.equal(feeCollection?.rawAmountToken0, 1500000n);
+    assert.equal(feeCollection?.amountToken0, undefined);
+    assert.equal(mockDbUpdated.entities.ProtocolTokenFees.getAll().length, 0);
+    assert.equal(mockDbUpdated.entities.Protocol.get(`${chainId}`)?.feeCollectionCount, 1n);
+  });
+});
+
+describe("Uniswap V4 Swap attribution tests", () => {
+  const universalRouter = "0x6ff5693b99212da76ad316178a184ab56d299b43";
+  const trader = "0x0000000000000000000000000000000000000009";
+  const mockDb = createV4PoolMockDb({ liquidity: 1000000000000000000n });
+
+  // Buy 1 PING (currency1) for 1 USDC through the Universal Router
+  const event = UniswapV4PoolManager.Swap.createMockEvent({
+    id: V4_POOL_ID,
+    sender: universalRouter,
+    amount0: -1000000n,
+    amount1: 1000000000000000000n,
+    sqrtPriceX96: 79228162514264337593543950336n,
+    liquidity: 1000000000000000000n,
+    tick: 0n,
+    swapFee: 3000n,
+    mockEventData: { chainId: V4_CHAIN_ID, transaction: { from: trader } },
+  });
+
+  // 1 PING = 1 USDC after adjusting for 18 vs 6 decimals
+  const pricedEvent = UniswapV4PoolManager.Swap.createMockEvent({
+    id: V4_POOL_ID,
+    sender: trader,
+    amount0: -2000000n,
+    amount1: 2000000000000000000n,
+    sqrtPriceX96: 79228162514264337593543950336000000n,
+    liquidity: 1000000000000000000n,
+    tick: 276324n,
+    swapFee: 3000n,
+    mockEventData: { chainId: V4_CHAIN_ID },
+  });
+
+  it("Attributes router swaps to the transaction sender and creates the Account", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event, mockDb });
+
+    const traderAccount = mockDbUpdated.entities.Account.get(`${V4_CHAIN_ID}_${trader}`);
+    assert.ok(traderAccount, "Trader account should be created on demand");
+    assert.equal(traderAccount?.totalBuys, 1n);
+    assert.equal(traderAccount?.totalBuyVolume.toString(), "1");
+
+    const routerAccount = mockDbUpdated.entities.Account.get(`${V4_CHAIN_ID}_${universalRouter}`);
+    assert.equal(routerAccount, undefined, "Router should not be credited with the buy");
+  });
+
+  it("Collects every swap of a transaction in the PoolManager transfer lookup", async () => {
+    const hash = `0x${"5".repeat(64)}`;
+    const swapInTransaction = (logIndex: number) =>
+      UniswapV4PoolManager.Swap.createMockEvent({
+        ...event.params,
+        amount1: BigInt(logIndex) * 1000000000000000000n,
+        mockEventData: { chainId: V4_CHAIN_ID, logIndex, transaction: { hash, from: trader } },
+      });
+
+    const afterFirstSwap = await UniswapV4PoolManager.Swap.processEvent({
+      event: swapInTransaction(1),
+      mockDb,
+    });
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({
+      event: swapInTransaction(2),
+      mockDb: afterFirstSwap,
+    });
+
+    const lookup = mockDbUpdated.entities.PoolV4SwapLookup.get(V4_CHAIN_ID.toString());
+    assert.equal(lookup?.transactionHash, hash);
+    assert.deepEqual(lookup?.poolIds, [`${V4_CHAIN_ID}_${V4_POOL_ID}`, `${V4_CHAIN_ID}_${V4_POOL_ID}`]);
+    assert.deepEqual(lookup?.pingAmounts, [1000000000000000000n, 2000000000000000000n]);
+  });
+
+  it("Seeds a day that starts with a swap from the current holder distribution", async () => {
+    const day = 86400;
+    const afterMint = await Ping.Transfer.processEvent({
+      event: Ping.Transfer.createMockEvent({
+        from: "0x0000000000000000000000000000000000000000",
+        to: trader,
+        value: 5000000000000000000n,
+        mockEventData: { chainId: V4_CHAIN_ID, block: { timestamp: 10 * day } },
+      }),
+      mockDb,
+    });
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({
+      event: UniswapV4PoolManager.Swap.createMockEvent({
+        ...event.params,
+        mockEventData: {
+          chainId: V4_CHAIN_ID,
+          block: { timestamp: 11 * day },
+          transaction: { from: trader },
+        },
+      }),
+      mockDb: afterMint,
+    });
+
+    const swapDay = mockDbUpdated.entities.DailyTokenActivity.getAll()
+      .find((daily) => daily.timestamp === BigInt(11 * day));
+    assert.equal(swapDay?.dailyUniqueBuyers, 1n);
+    assert.equal(swapDay?.holderCount, 1n);
+    assert.equal(swapDay?.holders1To1k, 1n);
+  });
+
+  it("Records a unified Trade for the swap", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event, mockDb });
+
+    const trade = mockDbUpdated.entities.Trade.get(
+      `${V4_CHAIN_ID}_${event.block.number}_${event.logIndex}`
+    );
+    assert.equal(trade?.poolVersion, "V4");
+    assert.equal(trade?.side, "BUY");
+    assert.equal(trade?.trader, trader);
+    assert.equal(trade?.pingAmount.toString(), "1");
+    assert.equal(trade?.quoteToken, "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913");
+    assert.equal(trade?.quoteAmount.toString(), "1");
+    assert.equal(trade?.price.toString(), "1");
+  });
+  it("Prices PING from the USDC pair and values the swap in USD", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event: pricedEvent, mockDb });
+
+    const pingPrice = mockDbUpdated.entities.TokenPrice.get(
+      `${V4_CHAIN_ID}_0xd85c31854c2b0fb40aaa9e2fc4da23c21f829d46`
+    );
+    assert.equal(pingPrice?.priceUSD.toString(), "1");
+    assert.equal(pingPrice?.sourcePoolVersion, "V4");
+
+    const pool = mockDbUpdated.entities.PoolV4.get(`${V4_CHAIN_ID}_${V4_POOL_ID}`);
+    assert.equal(pool?.volumeUSD.toString(), "2");
+    assert.equal(pool?.token0Price.toString(), "1");
+    assert.equal(pool?.token1Price.toString(), "1");
+  });
+
+  it("Charges the dynamic swap fee on the input side", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event: pricedEvent, mockDb });
+
+    // 2 USDC in at 0.3%
+    const swap = mockDbUpdated.entities.SwapV4.getAll()[0];
+    assert.equal(swap?.feeAmount0.toString(), "0.006");
+    assert.equal(swap?.feeAmount1.toString(), "0");
+
+    const pool = mockDbUpdated.entities.PoolV4.get(`${V4_CHAIN_ID}_${V4_POOL_ID}`);
+    assert.equal(pool?.feesCurrency0.toString(), "0.006");
+    assert.equal(pool?.feesUSD.toString(), "0.006");
+
+    const daily = mockDbUpdated.entities.DailyPoolActivity.getAll()[0];
+    assert.equal(daily?.dailyFees0.toString(), "0.006");
+    assert.equal(daily?.dailyFeesUSD.toString(), "0.006");
+  });
+
+  it("Tracks the daily PING price range from the pre-swap price", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event: pricedEvent, mockDb });
+
+    // The seeded tick-0 pool prices 1 PING at 1e12 USDC, the swap moves it to 1 USDC
+    const daily = mockDbUpdated.entities.DailyPoolActivity.getAll()[0];
+    assert.equal(daily?.priceOpen.toString(), "1000000000000");
+    assert.equal(daily?.priceHigh.toString(), "1000000000000");
+    assert.equal(daily?.priceLow.toString(), "1");
+    assert.equal(daily?.priceClose.toString(), "1");
+    assert.equal(daily?.token1Price.toString(), "1");
+  });
+
+  it("Updates hourly data and a candle per interval with input-side fees", async () => {
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({ event: pricedEvent, mockDb });
+
+    const candles = mockDbUpdated.entities.PoolCandle.getAll();
+    assert.deepEqual(
+      candles.map((candle) => candle.interval).sort(),
+      ["15m", "1d", "1h", "1m", "4h", "5m"]
+    );
+
+    const minuteCandle = candles.find((candle) => candle.interval === "1m");
+    assert.equal(minuteCandle?.swapCount, 1n);
+    assert.equal(minuteCandle?.priceClose.toString(), "1");
+    assert.equal(minuteCandle?.fees0.toString(), "0.006", "USDC is the input side");
+    assert.equal(minuteCandle?.fees1.toString(), "0");
+
+    const hourData = mockDbUpdated.entities.PoolHourData.getAll()[0];
+    assert.equal(hourData?.poolVersion, "V4");
+    assert.equal(hourData?.volume1.toString(), "2");
+    assert.equal((hourData?.periodStart ?? 1n) % 3600n, 0n, "Hour buckets are aligned");
+  });
+
+  it("Records the pre-swap state and price impact", async () => {
+    // Pool already at 1 PING = 1 USDC, 2 USDC buys 1.98 PING
+    const pricedDb = createV4PoolMockDb({
+      liquidity: 1000000000000000000n,
+      sqrtPriceX96: 79228162514264337593543950336000000n,
+      tick: 276324n,
+      token0Price: new BigDecimal("1"),
+      token1Price: new BigDecimal("1"),
+    });
+    const mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({
+      event: UniswapV4PoolManager.Swap.createMockEvent({
+        ...pricedEvent.params,
+        amount1: 1980000000000000000n,
+        mockEventData: { chainId: V4_CHAIN_ID },
+      }),
+      mockDb: pricedDb,
+    });
+
+    const swap = mockDbUpdated.entities.SwapV4.getAll()[0];
+    assert.equal(swap?.sqrtPriceX96Before, 79228162514264337593543950336000000n);
+    assert.equal(swap?.tickBefore, 276324n);
+    assert.equal(swap?.midPrice.toString(), "1");
+    assert.equal(swap?.executionPrice.toFixed(4), "1.0101");
+    assert.equal(swap?.priceImpactBps.toFixed(2), "101.01");
+
+    const daily = mockDbUpdated.entities.DailyPoolActivity.getAll()[0];
+    assert.equal(daily?.avgPriceImpactBps.toFixed(2), "101.01");
+    assert.equal(daily?.maxPriceImpactBps.toFixed(2), "101.01");
+  });
+
+  it("Flags a sandwich around a victim swap in the same block", async () => {
+    const attacker = "0x00000000000000000000000000000000000000a1";
+    const victim = "0x00000000000000000000000000000000000000b2";
+    let mockDbUpdated = createV4PoolMockDb({ liquidity: 1000000000000000000n });
+
+    // Attacker buys at 1, victim buys at 1.1, attacker sells at 1.05
+    for (const [from, amount0, amount1, logIndex] of [
+      [attacker, -1000000n, 1000000000000000000n, 0],
+      [victim, -1100000n, 1000000000000000000n, 1],
+      [attacker, 1050000n, -1000000000000000000n, 2],
+    ] as const) {
+      mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({
+        event: UniswapV4PoolManager.Swap.createMockEvent({
+          ...pricedEvent.params,
+          sender: from,
+          amount0,
+          amount1,
+          mockEventData: {
+            chainId: V4_CHAIN_ID,
+            logIndex,
+            block: { number: 100 },
+            transaction: { from },
+          },
+        }),
+        mockDb: mockDbUpdated,
+      });
+    }
+
+    const mevEvent = mockDbUpdated.entities.MevEvent.get(`${V4_CHAIN_ID}_100_2_1`);
+    assert.equal(mevEvent?.attacker, attacker);
+    assert.equal(mevEvent?.victim, victim);
+    assert.equal(mevEvent?.side, "BUY");
+    assert.equal(mevEvent?.frontRunTrade_id, `${V4_CHAIN_ID}_100_0`);
+    assert.equal(mevEvent?.extractedQuote.toString(), "0.05");
+    assert.equal(mevEvent?.extractedValueUSD.toString(), "0.05");
+
+    const victimAccount = mockDbUpdated.entities.Account.get(`${V4_CHAIN_ID}_${victim}`);
+    assert.equal(victimAccount?.timesSandwiched, 1n);
+    assert.equal(victimAccount?.sandwichedValueUSD.toString(), "0.05");
+
+    const attackerAccount = mockDbUpdated.entities.Account.get(`${V4_CHAIN_ID}_${attacker}`);
+    assert.equal(attackerAccount?.sandwichesExecuted, 1n);
+    assert.equal(attackerAccount?.timesSandwiched, 0n);
+  });
+
+  it("Classifies offsetting trades across two pools as arbitrage", async () => {
+    const arbitrageur = "0x00000000000000000000000000000000000000c3";
+    const hash = "0x00000000000000000000000000000000000000000000000000000000000000bb";
+    const secondPoolId = "0x2222222222222222222222222222222222222222222222222222222222222222";
+    const firstPool = createV4PoolMockDb().entities.PoolV4.get(`${V4_CHAIN_ID}_${V4_POOL_ID}`)!;
+    let mockDbUpdated = createV4PoolMockDb()
+      .entities.PoolV4Registry.set({
+        id: secondPoolId,
+        poolId: secondPoolId,
+        isPingPool: true,
+        currency0: firstPool.currency0,
+        currency1: firstPool.currency1,
+      })
+      .entities.PoolV4.set({ ...firstPool, id: `${V4_CHAIN_ID}_${secondPoolId}`, poolId: secondPoolId });
+
+    // Buy 1 PING for 1 USDC in the first pool, sell it for 1.02 USDC in the second
+    for (const [poolId, amount0, amount1, logIndex] of [
+      [V4_POOL_ID, -1000000n, 1000000000000000000n, 0],
+      [secondPoolId, 1020000n, -1000000000000000000n, 1],
+    ] as const) {
+      mockDbUpdated = await UniswapV4PoolManager.Swap.processEvent({
+        event: UniswapV4PoolManager.Swap.createMockEvent({
+          ...pricedEvent.params,
+          id: poolId,
+          sender: arbitrageur,
+          amount0,
+          amount1,
+          mockEventData: { chainId: V4_CHAIN_ID, logIndex, transaction: { hash, from: arbitrageur } },
+        }),
+        mockDb: mockDbUpdated,
+      });
+    }
+
+    const arbitrage = mockDbUpdated.entities.ArbitrageTrade.get(`${V4_CHAIN_ID}_${hash}`);
+    assert.equal(arbitrage?.legCount, 2n);
+    assert.deepEqual(arbitrage?.pools, [V4_POOL_ID, secondPoolId]);
+    assert.equal(arbitrage?.netPing.toString(), "0");
+    assert.equal(arbitrage?.profitQuote?.toString(), "0.02");
+    assert.equal(arbitrage?.profitUSD.toString(), "0.02");
+
+    const legs = mockDbUpdated.entities.Trade.getAll();
+    assert.ok(legs.every((leg) => leg.arbitrage_id === arbitrage?.id), "Both legs are linked");
+
+    const firstDaily = mockDbUpdated.entities.DailyPoolActivity.getAll()
+      .find((daily) => daily.poolIdentifier === V4_POOL_ID);
+    assert.equal(firstDaily?.dailyVolumeUSD.toString(), "1");
+    assert.equal(firstDaily?.dailyArbitrageVolumeUSD.toString(), "1");
+    assert.equal(firstDaily?.dailyOrganicVolumeUSD.toString(), "0");
+
+    const transactionSwaps = mockDbUpdated.entities.TransactionSwaps.getAll();
+    assert.equal(transactionSwaps.length, 1, "Leg state is kept once per chain");
+    assert.equal(transactionSwaps[0]?.transactionHash, hash);
+  });
+
+  it("Tracks cost basis and realized PnL per trade", async () => {
+    // Sell 1 PING for 1.5 USDC after buying 2 PING for 2 USDC
+    const buyEvent = UniswapV4PoolManager.Swap.createMockEvent({
+      ...pricedEvent.params,
+      mockEventData: { chainId: V4_CHAIN_ID, logIndex: 0, transaction: { from: trader } },
+    });
+    const sellEvent = UniswapV4PoolManager.Swap.createMockEvent({
+      id: V4_POOL_ID,
+      sender: trader,
+      amount0: 1500000n,
+      amount1: -1000000000000000000n,
+      sqrtPriceX96: 79228162514264337593543950336000000n,
+      liquidity: 1000000000000000000n,
+      tick: 276324n,
+      swapFee: 3000n,
+      mockEventData: { chainId: V4_CHAIN_ID, logIndex: 1, transaction: { from: trader } },
+    });
+    const afterBuy = await UniswapV4PoolManager.Swap.processEvent({ event: buyEvent, mockDb });
+    const afterSell = await UniswapV4PoolManager.Swap.processEvent({ event: sellEvent, mockDb: afterBuy });
+
+    const account = afterSell.entities.Account.get(`${V4_CHAIN_ID}_${trader}`);
+    assert.equal(account?.totalBuyCostUSD.toString(), "2");
+    assert.equal(account?.totalSellProceedsUSD.toString(), "1.5");
+    assert.equal(account?.realizedPnlUSD.toString(), "0.5");
+    assert.equal(account?.positionSize.toString(), "1");
+    assert.equal(account?.avgEntryPriceUSD.toString(), "1");
+    assert.equal(account?.unrealizedPnlUSDAtLastTrade.toString(), "0");
+
+    const sellTrade = afterSell.entities.AccountTrade.get(
+      `${V4_CHAIN_ID}_${sellEvent.block.number}_${sellEvent.logIndex}`
+    );
+    assert.equal(sellTrade?.side, "SELL");
+    assert.equal(sellTrade?.quoteAmount.toString(), "1.5");
+    assert.equal(sellTrade?.priceUSD.toString(), "1.5");
+    assert.equal(sellTrade?.realizedPnlUSD.toString(), "0.5");
+  });
+});
+
+describe("PING role and ownership tests", () => {
+  const chainId = 8453;
+  const minterRole = "0x9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6";
+  const admin = "0x0000000000000000000000000000000000000001";
+  const minter = "0x0000000000000000000000000000000000000002";
+  const contractAddress = "0xd85c31854c2b0fb40aaa9e2fc4da23c21f829d46";
+  const otherContractAddress = "0x0000000000000000000000000000000000000007";
+  const membershipId = `${chainId}_${contractAddress}_${minterRole}_${minter}`;
+  const mockDb = MockDb.createMockDb();
+
+  it("Tracks role grants and revokes with decoded role names", async () => {
+    const afterGrant = await Ping.RoleGranted.processEvent({
+      event: Ping.RoleGranted.createMockEvent({
+        role: minterRole,
+        account: minter,
+        sender: admin,
+        mockEventData: { chainId, logIndex: 0, srcAddress: contractAddress },
+      }),
+      mockDb,
+    });
+
+    const granted = afterGrant.entities.RoleMembership.get(membershipId);
+    assert.equal(granted?.roleName, "MINTER_ROLE");
+    assert.equal(granted?.active, true);
+    assert.equal(granted?.grantedBy, admin);
+    assert.equal(granted?.contractAddress, contractAddress);
+
+    const afterRevoke = await Ping.RoleRevoked.processEvent({
+      event: Ping.RoleRevoked.createMockEvent({
+        role: minterRole,
+        account: minter,
+        sender: admin,
+        mockEventData: { chainId, logIndex: 1, srcAddress: contractAddress },
+      }),
+      mockDb: afterGrant,
+    });
+
+    const revoked = afterRevoke.entities.RoleMembership.get(membershipId);
+    assert.equal(revoked?.active, false);
+    assert.equal(revoked?.grantedBy, admin, "Grant details are kept after a revoke");
+    assert.equal(afterRevoke.entities.ContractGovernance.getAll()[0]?.activeRoleMemberships, 0n);
+  });
+
+  it("Keeps roles of different contracts apart", async () => {
+    const grant = (srcAddress: string, logIndex: number, db: typeof mockDb) =>
+      Ping.RoleGranted.processEvent({
+        event: Ping.RoleGranted.createMockEvent({
+          role: minterRole,
+          account: minter,
+          sender: admin,
+          mockEventData: { chainId, logIndex, srcAddress },
+        }),
+        mockDb: db,
+      });
+    const afterGrants = await grant(otherContractAddress, 1, await grant(contractAddress, 0, mockDb));
+
+    const mockDbUpdated = await Ping.RoleAdminChanged.processEvent({
+      event: Ping.RoleAdminChanged.createMockEvent({
+        role: minterRole,
+        previousAdminRole: `0x${"0".repeat(64)}`,
+        newAdminRole: minterRole,
+        mockEventData: { chainId, logIndex: 2, srcAddress: otherContractAddress },
+      }),
+      mockDb: afterGrants,
+    });
+
+    assert.equal(mockDbUpdated.entities.RoleMembership.getAll().length, 2);
+    assert.equal(
+      mockDbUpdated.entities.RoleMembership.get(
+        `${chainId}_${otherContractAddress}_${minterRole}_${minter}`
+      )?.contractAddress,
+      otherContractAddress
+    );
+    assert.equal(mockDbUpdated.entities.RoleAdmin.get(`${chainId}_${contractAddress}_${minterRole}`), undefined);
+    assert.equal(
+      mockDbUpdated.entities.RoleAdmin.get(`${chainId}_${otherContractAddress}_${minterRole}`)?.adminRoleName,
+      "MINTER_ROLE"
+    );
+  });
+
+  it("Records ownership changes and the current owner", async () => {
+    const mockDbUpdated = await Ping.OwnershipTransferred.processEvent({
+      event: Ping.OwnershipTransferred.createMockEvent({
+        previousOwner: "0x0000000000000000000000000000000000000000",
+        newOwner: admin,
+        mockEventData: { chainId },
+      }),
+      mockDb,
+    });
+
+    assert.equal(mockDbUpdated.entities.OwnershipChange.getAll().length, 1);
+    const governance = mockDbUpdated.entities.ContractGovernance.getAll()[0];
+    assert.equal(governance?.owner, admin);
+    assert.equal(governance?.ownershipChangeCount, 1n);
+  });
+});
+
+describe("PING allowance tests", () => {
+  const chainId = 8453;
+  const owner = "0x0000000000000000000000000000000000000001";
+  const spender = "0x0000000000000000000000000000000000000002";
+  const recipient = "0x0000000000000000000000000000000000000003";
+  const allowanceId = `${chainId}_${owner}_${spender}`;
+
+  const spendHash = "0x00000000000000000000000000000000000000000000000000000000000000cc";
+
+  // transferFrom of 4 PING sent by the spender
+  const transferFromEvent = Ping.Transfer.createMockEvent({
+    from: owner,
+    to: recipient,
+    value: 4000000000000000000n,
+    mockEventData: { chainId, logIndex: 1, transaction: { from: spender, hash: spendHash } },
+  });
+
+  const approve = (value: bigint, logIndex: number, hash: string, mockDb = MockDb.createMockDb()) =>
+    Ping.Approval.processEvent({
+      event: Ping.Approval.createMockEvent({
+        owner,
+        spender,
+        value,
+        mockEventData: { chainId, logIndex, transaction: { hash } },
+      }),
+      mockDb,
+    });
+
+  it("Reduces the allowance by a transferFrom without an Approval", async () => {
+    const afterApproval = await approve(10000000000000000000n, 0, `0x${"1".repeat(64)}`);
+    assert.equal(afterApproval.entities.Allowance.get(allowanceId)?.amount.toString(), "10");
+
+    const mockDbUpdated = await Ping.Transfer.processEvent({
+      event: transferFromEvent,
+      mockDb: afterApproval,
+    });
+
+    const allowance = mockDbUpdated.entities.Allowance.get(allowanceId);
+    assert.equal(allowance?.rawAmount, 6000000000000000000n);
+    assert.equal(allowance?.amount.toString(), "6");
+    assert.equal(allowance?.isUnlimited, false);
+    assert.equal(allowance?.lastSpentTxHash, spendHash);
+  });
+
+  it("Lets an Approval later in the same transaction overwrite the amount", async () => {
+    const afterApproval = await approve(10000000000000000000n, 0, `0x${"1".repeat(64)}`);
+    const afterSpend = await Ping.Transfer.processEvent({
+      event: transferFromEvent,
+      mockDb: afterApproval,
+    });
+    const mockDbUpdated = await approve(6000000000000000000n, 2, spendHash, afterSpend);
+
+    const allowance = mockDbUpdated.entities.Allowance.get(allowanceId);
+    assert.equal(allowance?.rawAmount, 6000000000000000000n, "Spend is not applied twice");
+    assert.equal(allowance?.lastSpentTxHash, spendHash);
+  });
+
+  it("Clamps an overspent allowance at zero", async () => {
+    const afterApproval = await approve(1000000000000000000n, 0, `0x${"1".repeat(64)}`);
+    const mockDbUpdated = await Ping.Transfer.processEvent({
+      event: transferFromEvent,
+      mockDb: afterApproval,
+    });
+
+    assert.equal(mockDbUpdated.entities.Allowance.get(allowanceId)?.rawAmount, 0n);
+  });
+
+  it("Never reduces an unlimited allowance", async () => {
+    const maxUint256 = (1n << 256n) - 1n;
+    const afterApproval = await Ping.Approval.processEvent({
+      event: Ping.Approval.createMockEvent({
+        owner,
+        spender,
+        value: maxUint256,
+        mockEventData: { chainId, logIndex: 0 },
+      }),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    const mockDbUpdated = await Ping.Transfer.processEvent({
+      event: transferFromEvent,
+      mockDb: afterApproval,
+    });
+
+    const allowance = mockDbUpdated.entities.Allowance.get(allowanceId);
+    assert.equal(allowance?.isUnlimited, true);
+    assert.equal(allowance?.rawAmount, maxUint256);
+    assert.equal(allowance?.lastSpentTxHash, spendHash);
+  });
+});
+
+describe("PING EIP-3009 authorization tests", () => {
+  const chainId = 8453;
+  const authorizer = "0x0000000000000000000000000000000000000001";
+  const recipient = "0x0000000000000000000000000000000000000002";
+  const relayer = "0x0000000000000000000000000000000000000003";
+  const nonce = "0x00000000000000000000000000000000000000000000000000000000000000bb";
+  const hash = "0x00000000000000000000000000000000000000000000000000000000000000cc";
+
+  it("Links a used authorization to its transfer and counts the gasless transfer", async () => {
+    const afterAuthorization = await Ping.AuthorizationUsed.processEvent({
+      event: Ping.AuthorizationUsed.createMockEvent({
+        authorizer,
+        nonce,
+        mockEventData: { chainId, logIndex: 0, transaction: { hash, from: relayer } },
+      }),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    const mockDbUpdated = await Ping.Transfer.processEvent({
+      event: Ping.Transfer.createMockEvent({
+        from: authorizer,
+        to: recipient,
+        value: 5000000000000000000n,
+        mockEventData: { chainId, logIndex: 1, transaction: { hash, from: relayer } },
+      }),
+      mockDb: afterAuthorization,
+    });
+
+    const authorization = mockDbUpdated.entities.Authorization.get(
+      `${chainId}_${authorizer}_${nonce}`
+    );
+    assert.equal(authorization?.status, "USED");
+    assert.equal(authorization?.relayer, relayer);
+    assert.ok(authorization?.transfer_id, "Authorization should be linked to the transfer");
+    assert.equal(authorization?.value?.toString(), "5");
+    assert.equal(mockDbUpdated.entities.AuthorizationLookup.getAll().length, 0);
+
+    const sender = mockDbUpdated.entities.Account.get(`${chainId}_${authorizer}`);
+    assert.equal(sender?.gaslessTransfersSent, 1n);
+    assert.equal(sender?.gaslessVolumeSent.toString(), "5");
+    const receiver = mockDbUpdated.entities.Account.get(`${chainId}_${recipient}`);
+    assert.equal(receiver?.gaslessTransfersReceived, 1n);
+  });
+
+  it("Marks canceled authorizations", async () => {
+    const mockDbUpdated = await Ping.AuthorizationCanceled.processEvent({
+      event: Ping.AuthorizationCanceled.createMockEvent({
+        authorizer,
+        nonce,
+        mockEventData: { chainId },
+      }),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    const authorization = mockDbUpdated.entities.Authorization.get(
+      `${chainId}_${authorizer}_${nonce}`
+    );
+    assert.equal(authorization?.status, "CANCELED");
+    assert.equal(authorization?.transfer_id, undefined);
+  });
+});
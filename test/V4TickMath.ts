@@ -0,0 +1,177 @@
+import assert from "assert";
+import {
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  getMinUsableTick,
+  getMaxUsableTick,
+  getAmount0Delta,
+  getAmount1Delta,
+  getAmount0DeltaRounded,
+  getAmount1DeltaRounded,
+  getLiquidityAmounts,
+  getLiquidityCurve,
+} from "../src/utils/v4-tick-math";
+
+// Expected sqrt prices as emitted by Uniswap's on-chain TickMath
+const SQRT_RATIO_VECTORS: [number, bigint][] = [
+  [MIN_TICK, 4295128739n],
+  [-887270, 4295558252n],
+  [-887260, 4297706460n],
+  [-887250, 4299855743n],
+  [-887220, 4306310044n],
+  [-887200, 4310618292n],
+  [-50000, 6504256538020985011912221507n],
+  [-60, 78990846045029531151608375686n],
+  [-1, 79224201403219477170569942574n],
+  [0, 79228162514264337593543950336n],
+  [1, 79232123823359799118286999568n],
+  [60, 79466191966197645195421774833n],
+  [50000, 965075977353221155028623082916n],
+  [887200, 1456195216270955103206513029158776779468408838535n],
+  [887220, 1457652066949847389969617340386294118487833376468n],
+  [887250, 1459840076248373162167899255275506587012164559123n],
+  [887260, 1460570142285104104286607650833256105367815198571n],
+  [887270, 1461300573427867316570072651998408279850435624081n],
+  [MAX_TICK, 1461446703485210103287273052203988822378723970342n],
+];
+
+describe("V4 tick math: getSqrtRatioAtTick", () => {
+  it("matches on-chain values at MIN_TICK, MAX_TICK and tick-spacing boundaries", () => {
+    for (const [tick, expected] of SQRT_RATIO_VECTORS) {
+      assert.equal(getSqrtRatioAtTick(tick), expected, `tick ${tick}`);
+    }
+  });
+
+  it("returns MIN_SQRT_RATIO and MAX_SQRT_RATIO at the tick bounds", () => {
+    assert.equal(getSqrtRatioAtTick(MIN_TICK), MIN_SQRT_RATIO);
+    assert.equal(getSqrtRatioAtTick(MAX_TICK), MAX_SQRT_RATIO);
+  });
+
+  it("throws for ticks outside the valid range", () => {
+    assert.throws(() => getSqrtRatioAtTick(MIN_TICK - 1));
+    assert.throws(() => getSqrtRatioAtTick(MAX_TICK + 1));
+  });
+});
+
+describe("V4 tick math: getTickAtSqrtRatio", () => {
+  it("inverts getSqrtRatioAtTick for every vector", () => {
+    for (const [tick, sqrtPriceX96] of SQRT_RATIO_VECTORS) {
+      if (tick === MAX_TICK) continue; // MAX_SQRT_RATIO itself is exclusive
+      assert.equal(getTickAtSqrtRatio(sqrtPriceX96), tick, `tick ${tick}`);
+    }
+  });
+
+  it("rounds down to the previous tick just below a tick's sqrt price", () => {
+    for (const [tick, sqrtPriceX96] of SQRT_RATIO_VECTORS) {
+      if (tick === MIN_TICK) continue;
+      assert.equal(getTickAtSqrtRatio(sqrtPriceX96 - 1n), tick - 1, `tick ${tick}`);
+    }
+  });
+
+  it("handles the sqrt price bounds", () => {
+    assert.equal(getTickAtSqrtRatio(MIN_SQRT_RATIO), MIN_TICK);
+    assert.equal(getTickAtSqrtRatio(MAX_SQRT_RATIO - 1n), MAX_TICK - 1);
+    assert.throws(() => getTickAtSqrtRatio(MIN_SQRT_RATIO - 1n));
+    assert.throws(() => getTickAtSqrtRatio(MAX_SQRT_RATIO));
+  });
+});
+
+describe("V4 tick math: usable ticks", () => {
+  it("aligns the tick bounds to the tick spacing", () => {
+    assert.equal(getMinUsableTick(1), MIN_TICK);
+    assert.equal(getMaxUsableTick(1), MAX_TICK);
+    assert.equal(getMinUsableTick(10), -887270);
+    assert.equal(getMaxUsableTick(10), 887270);
+    assert.equal(getMinUsableTick(60), -887220);
+    assert.equal(getMaxUsableTick(60), 887220);
+    assert.equal(getMinUsableTick(200), -887200);
+    assert.equal(getMaxUsableTick(200), 887200);
+  });
+});
+
+describe("V4 tick math: SqrtPriceMath amount deltas", () => {
+  const liquidity = 10n ** 18n;
+  const sqrtLower = getSqrtRatioAtTick(-60);
+  const sqrtUpper = getSqrtRatioAtTick(60);
+
+  it("rounds up when requested and down otherwise", () => {
+    assert.equal(getAmount0DeltaRounded(sqrtLower, sqrtUpper, liquidity, true), 5999709018652707n);
+    assert.equal(getAmount0DeltaRounded(sqrtLower, sqrtUpper, liquidity, false), 5999709018652706n);
+    assert.equal(getAmount1DeltaRounded(sqrtLower, sqrtUpper, liquidity, true), 5999709018652707n);
+    assert.equal(getAmount1DeltaRounded(sqrtLower, sqrtUpper, liquidity, false), 5999709018652706n);
+  });
+
+  it("is exact over the full usable range for tick spacing 60", () => {
+    const fullLower = getSqrtRatioAtTick(-887220);
+    const fullUpper = getSqrtRatioAtTick(887220);
+    assert.equal(
+      getAmount0DeltaRounded(fullLower, fullUpper, liquidity, true),
+      18398155661052151031219142366053009629n
+    );
+    assert.equal(
+      getAmount1DeltaRounded(fullLower, fullUpper, liquidity, false),
+      18398155664501368266272701887668761223n
+    );
+  });
+
+  it("is exact at the sqrt price bounds with max liquidity", () => {
+    const maxLiquidity = 2n ** 128n - 1n;
+    assert.equal(
+      getAmount0DeltaRounded(MIN_SQRT_RATIO, MAX_SQRT_RATIO, maxLiquidity, true),
+      6276865795046577716716727052920969657919881535178523893768n
+    );
+    assert.equal(
+      getAmount1DeltaRounded(MIN_SQRT_RATIO, MAX_SQRT_RATIO, maxLiquidity, false),
+      6276865796315986613307619852238232712829278890652951511957n
+    );
+  });
+
+  it("rounds adds up and removes down in the signed helpers", () => {
+    assert.equal(getAmount0Delta(sqrtLower, sqrtUpper, liquidity), 5999709018652707n);
+    assert.equal(getAmount0Delta(sqrtLower, sqrtUpper, -liquidity), -5999709018652706n);
+    assert.equal(getAmount1Delta(sqrtLower, sqrtUpper, liquidity), 5999709018652707n);
+    assert.equal(getAmount1Delta(sqrtLower, sqrtUpper, -liquidity), -5999709018652706n);
+  });
+
+  it("only uses one token when the price is outside the range", () => {
+    const below = getLiquidityAmounts(getSqrtRatioAtTick(-120), sqrtLower, sqrtUpper, liquidity);
+    assert.equal(below.amount1, 0n);
+    assert.ok(below.amount0 > 0n);
+
+    const above = getLiquidityAmounts(getSqrtRatioAtTick(120), sqrtLower, sqrtUpper, liquidity);
+    assert.equal(above.amount0, 0n);
+    assert.ok(above.amount1 > 0n);
+  });
+});
+
+describe("V4 tick math: getLiquidityCurve", () => {
+  // [-120, 120] with 100 liquidity and [-60, 60] with 50 liquidity
+  const ticks = [
+    { tick: 60, liquidityNet: -50n },
+    { tick: -120, liquidityNet: 100n },
+    { tick: 120, liquidityNet: -100n },
+    { tick: -60, liquidityNet: 50n },
+  ];
+
+  it("walks up and down from the active range", () => {
+    assert.deepEqual(getLiquidityCurve(ticks, 0, 150n), [
+      { tickLower: -120, tickUpper: -60, liquidity: 100n },
+      { tickLower: -60, tickUpper: 60, liquidity: 150n },
+      { tickLower: 60, tickUpper: 120, liquidity: 100n },
+      { tickLower: 120, tickUpper: MAX_TICK, liquidity: 0n },
+    ]);
+  });
+
+  it("walks up from below the lowest initialized tick", () => {
+    const curve = getLiquidityCurve(ticks, -200, 0n);
+    assert.deepEqual(curve.map((segment) => segment.liquidity), [100n, 150n, 100n, 0n]);
+  });
+
+  it("returns no segments without initialized ticks", () => {
+    assert.deepEqual(getLiquidityCurve([], 0, 0n), []);
+  });
+});